@@ -1,11 +1,17 @@
 import { WebSocket, WebSocketServer } from 'ws';
 import { nanoid } from 'nanoid';
+import { createHash, randomBytes, randomInt, webcrypto } from 'crypto';
 
 // Configuration
 const PORT = process.env.PORT || 8080;
 const MAX_MESSAGE_SIZE = 1024 * 1024; // 1MB max message size
 const HEARTBEAT_INTERVAL = 30000; // 30 seconds
 const CONNECTION_TIMEOUT = 60000; // 60 seconds
+const PEER_ID_BYTES = 16; // Peer ids are the first 16 bytes of SHA-256(public key), in hex
+const REGISTER_CONTEXT = 'sharencrypt-register:';
+const PAIRING_CODE_TTL = 10 * 60 * 1000; // 10 minutes
+const PAIRING_LOOKUP_LIMIT = 10; // Code lookups per connection per minute, so codes cannot be guessed
+const PAIRING_LOOKUP_WINDOW = 60000;
 
 // Create WebSocket server with proper CORS configuration
 const wss = new WebSocketServer({ 
@@ -20,14 +26,76 @@ const wss = new WebSocketServer({
 // Store connected peers
 const peers = new Map();
 
+// Six-digit code -> { peerId, connectionId, expiresAt }
+const pairingCodes = new Map();
+
+const createPairingCode = () => {
+  let code;
+  do {
+    code = randomInt(0, 1000000).toString().padStart(6, '0');
+  } while (pairingCodes.has(code));
+  return code;
+};
+
+const releasePairingCodes = (connectionId) => {
+  pairingCodes.forEach((entry, code) => {
+    if (entry.connectionId === connectionId) {
+      pairingCodes.delete(code);
+    }
+  });
+};
+
+const derivePeerId = (publicKey) => {
+  return createHash('sha256').update(publicKey).digest().subarray(0, PEER_ID_BYTES).toString('hex');
+};
+
+// A registration must be signed over our challenge with the ECDSA P-256 key
+// the peer id is derived from; otherwise anyone could claim (and take over)
+// someone else's id
+const verifyRegistration = async (message, challenge) => {
+  if (typeof message.peerId !== 'string' || typeof message.publicKey !== 'string' || typeof message.signature !== 'string') {
+    return false;
+  }
+
+  try {
+    const publicKey = Buffer.from(message.publicKey, 'base64');
+    if (derivePeerId(publicKey) !== message.peerId) return false;
+
+    const key = await webcrypto.subtle.importKey(
+      'raw',
+      publicKey,
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    return await webcrypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      Buffer.from(message.signature, 'base64'),
+      Buffer.from(REGISTER_CONTEXT + challenge, 'utf8')
+    );
+  } catch (error) {
+    return false;
+  }
+};
+
 console.log(`Relay server started on port ${PORT}`);
 
 // Handle new connections
 wss.on('connection', (ws, req) => {
   const connectionId = nanoid();
+  const challenge = randomBytes(32).toString('base64');
   let peerId = null;
+  let registering = false;
+  let pairingLookups = [];
   
   console.log(`New connection: ${connectionId}`);
+
+  // The client signs this to register
+  ws.send(JSON.stringify({
+    type: 'challenge',
+    challenge
+  }));
   
   // Set up connection timeout
   let connectionTimeout = setTimeout(() => {
@@ -57,8 +125,160 @@ wss.on('connection', (ws, req) => {
     }, HEARTBEAT_INTERVAL);
   };
   
+  // Forward binary file frames. The envelope's leading peer id names the
+  // target on the way in and is rewritten to the sender on the way out, so
+  // the relay never has to look at the (encrypted) frame itself.
+  const forwardFrame = (data) => {
+    if (!peerId) {
+      ws.send(JSON.stringify({
+        type: 'error',
+        error: 'not_registered',
+        message: 'You must register before sending messages'
+      }));
+      return;
+    }
+
+    const idLength = data[0];
+    const targetId = data.subarray(1, 1 + idLength).toString('utf8');
+    const frame = data.subarray(1 + idLength);
+    const targetPeer = peers.get(targetId);
+
+    if (!targetPeer || targetPeer.ws.readyState !== WebSocket.OPEN) {
+      ws.send(JSON.stringify({
+        type: 'error',
+        error: 'peer_not_found',
+        message: `Peer ${targetId} not found or not connected`,
+        targetId
+      }));
+      return;
+    }
+
+    const senderId = Buffer.from(peerId, 'utf8');
+    targetPeer.ws.send(Buffer.concat([Buffer.from([senderId.length]), senderId, frame]), { binary: true });
+  };
+  
+  const handleRegister = async (message) => {
+    if (peerId || registering) {
+      ws.send(JSON.stringify({
+        type: 'error',
+        error: 'already_registered',
+        message: 'This connection is already registered'
+      }));
+      return;
+    }
+
+    registering = true;
+    const valid = await verifyRegistration(message, challenge);
+    registering = false;
+    if (ws.readyState !== WebSocket.OPEN) return;
+
+    if (!valid) {
+      console.log(`Connection ${connectionId} failed registration`);
+      ws.send(JSON.stringify({
+        type: 'error',
+        error: 'invalid_registration',
+        message: 'Registration signature did not match the peer ID'
+      }));
+      ws.close();
+      return;
+    }
+
+    clearTimeout(connectionTimeout);
+    peerId = message.peerId;
+    
+    // Check if peer ID is already registered
+    if (peers.has(peerId)) {
+      const existingConnection = peers.get(peerId);
+      
+      // Close existing connection
+      if (existingConnection.ws.readyState === WebSocket.OPEN) {
+        existingConnection.ws.send(JSON.stringify({
+          type: 'error',
+          error: 'duplicate_connection',
+          message: 'Another client connected with the same peer ID'
+        }));
+        
+        existingConnection.ws.close();
+      }
+    }
+    
+    // Register peer
+    peers.set(peerId, { 
+      ws, 
+      connectionId,
+      connectedAt: Date.now()
+    });
+    
+    console.log(`Peer registered: ${peerId}`);
+    
+    // Start heartbeat
+    startHeartbeat();
+    
+    // Send confirmation
+    ws.send(JSON.stringify({
+      type: 'registered',
+      peerId,
+      timestamp: Date.now()
+    }));
+  };
+  
+  // A new code replaces this connection's previous one
+  const handlePairingCodeRequest = (message) => {
+    releasePairingCodes(connectionId);
+
+    const code = createPairingCode();
+    const expiresAt = Date.now() + PAIRING_CODE_TTL;
+    pairingCodes.set(code, { peerId, connectionId, expiresAt });
+
+    ws.send(JSON.stringify({
+      type: 'pairing-code',
+      requestId: message.requestId,
+      code,
+      expiresAt
+    }));
+  };
+
+  const handlePairingCodeResolve = (message) => {
+    const now = Date.now();
+    pairingLookups = pairingLookups.filter(time => now - time < PAIRING_LOOKUP_WINDOW);
+    if (pairingLookups.length >= PAIRING_LOOKUP_LIMIT) {
+      ws.send(JSON.stringify({
+        type: 'error',
+        error: 'rate_limited',
+        message: 'Too many pairing code lookups, try again in a minute',
+        requestId: message.requestId
+      }));
+      return;
+    }
+    pairingLookups.push(now);
+
+    const entry = pairingCodes.get(message.code);
+    if (!entry || entry.expiresAt <= now) {
+      ws.send(JSON.stringify({
+        type: 'error',
+        error: 'pairing_code_not_found',
+        message: 'That pairing code is unknown or has expired',
+        requestId: message.requestId
+      }));
+      return;
+    }
+
+    ws.send(JSON.stringify({
+      type: 'pairing-code-resolved',
+      requestId: message.requestId,
+      code: message.code,
+      peerId: entry.peerId
+    }));
+  };
+  
   // Handle messages
-  ws.on('message', (data) => {
+  ws.on('message', (data, isBinary) => {
+    if (isBinary) {
+      lastPing = Date.now();
+      forwardFrame(data);
+      return;
+    }
+
     try {
       const message = JSON.parse(data);
       
@@ -67,44 +287,7 @@ wss.on('connection', (ws, req) => {
       
       // Handle registration
       if (message.type === 'register') {
-        clearTimeout(connectionTimeout);
-        peerId = message.peerId;
-        
-        // Check if peer ID is already registered
-        if (peers.has(peerId)) {
-          const existingConnection = peers.get(peerId);
-          
-          // Close existing connection
-          if (existingConnection.ws.readyState === WebSocket.OPEN) {
-            existingConnection.ws.send(JSON.stringify({
-              type: 'error',
-              error: 'duplicate_connection',
-              message: 'Another client connected with the same peer ID'
-            }));
-            
-            existingConnection.ws.close();
-          }
-        }
-        
-        // Register peer
-        peers.set(peerId, { 
-          ws, 
-          connectionId,
-          connectedAt: Date.now()
-        });
-        
-        console.log(`Peer registered: ${peerId}`);
-        
-        // Start heartbeat
-        startHeartbeat();
-        
-        // Send confirmation
-        ws.send(JSON.stringify({
-          type: 'registered',
-          peerId,
-          timestamp: Date.now()
-        }));
-        
+        handleRegister(message);
         return;
       }
       
@@ -127,6 +310,16 @@ wss.on('connection', (ws, req) => {
         return;
       }
       
+      // Handle pairing codes
+      if (message.type === 'pairing-code-request') {
+        handlePairingCodeRequest(message);
+        return;
+      }
+      if (message.type === 'pairing-code-resolve') {
+        handlePairingCodeResolve(message);
+        return;
+      }
+      
       // Handle relay messages
       if (message.targetId) {
         const targetPeer = peers.get(message.targetId);
@@ -157,6 +350,7 @@ wss.on('connection', (ws, req) => {
             type: 'error',
             error: 'peer_not_found',
             message: `Peer ${message.targetId} not found or not connected`,
+            targetId: message.targetId,
             originalMessage: message
           }));
         }
@@ -184,8 +378,10 @@ wss.on('connection', (ws, req) => {
     
     // Clean up
     clearInterval(heartbeatInterval);
+    releasePairingCodes(connectionId);
     
-    if (peerId) {
+    // A connection that was taken over must not remove its replacement
+    if (peerId && peers.get(peerId)?.connectionId === connectionId) {
       peers.delete(peerId);
       
       // Notify all connected peers about the disconnection
@@ -207,7 +403,14 @@ wss.on('connection', (ws, req) => {
   });
 });
 
-// Log statistics periodically
+// Log statistics and drop expired pairing codes periodically
 setInterval(() => {
   console.log(`Connected peers: ${peers.size}`);
+
+  const now = Date.now();
+  pairingCodes.forEach((entry, code) => {
+    if (entry.expiresAt <= now) {
+      pairingCodes.delete(code);
+    }
+  });
 }, 60000);
\ No newline at end of file
@@ -1,32 +1,87 @@
-import React, { useCallback, useState } from 'react';
-import { Share2, Upload, Users, X, QrCode, Scan } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Share2, Upload, Users, X, QrCode, Scan, ShieldCheck, ShieldAlert, FolderUp, FileCheck, History, Hash, BookUser, UserPlus } from 'lucide-react';
 import { QRCodeSVG } from 'qrcode.react';
 import { Toaster } from 'react-hot-toast';
 import { motion, AnimatePresence } from 'framer-motion';
 import { usePeerConnection } from './hooks/usePeerConnection';
+import { useTransferHistory } from './hooks/useTransferHistory';
 import { FileList } from './components/FileList';
+import { SwarmFileList } from './components/SwarmFileList';
 import { QRScanner } from './components/QRScanner';
 import { ConnectionRequest } from './components/ConnectionRequest';
 import { ConnectionDialog } from './components/ConnectionDialog';
+import { FileOfferPrompt } from './components/FileOfferPrompt';
+import { HistoryPanel } from './components/HistoryPanel';
+import { PairingCodePanel } from './components/PairingCodePanel';
+import { ContactsPanel } from './components/ContactsPanel';
+import { ContactAvatar } from './components/ContactAvatar';
+import { SessionTakeover } from './components/SessionTakeover';
+import { SignalIndicator } from './components/SignalIndicator';
+import { RelaySettings } from './components/RelaySettings';
+import { canSaveToDirectory } from './services/fileSink';
+import { MAX_CONCURRENT_LIMIT } from './services/transferScheduler';
+import { SelectedFile, fromDataTransfer, fromFileList } from './utils/fileEntries';
+import { createConnectLink, parseConnectLink } from './utils/pairing';
 
 function App() {
   const { 
     peerId, 
+    relayConnected,
+    relayHealth,
+    relayConfig,
+    setRelayUrls,
+    reconnectRelay,
+    sessionTakenOver,
+    reclaimSession,
+    contacts,
+    addContact,
+    updateContact,
+    removeContact,
     connections, 
     files, 
+    groups,
     pendingConnections,
+    fileOffers,
     connectionStatus,
-    connectToPeer, 
-    sendFile, 
+    connectWithCode,
+    createPairingCode,
+    sendFiles,
+    broadcastFile,
+    swarmFiles,
+    downloadFromSwarm,
+    shareToSwarm,
+    cancelTransfer,
+    pauseTransfer,
+    resumeTransfer,
+    queue,
+    maxConcurrentTransfers,
+    moveQueuedTransfer,
+    setMaxConcurrentTransfers,
+    livenessThresholds,
+    setLivenessThresholds,
+    saveGroupAsFolder,
+    saveGroupAsZip,
     disconnectPeer,
     acceptConnection,
     rejectConnection,
-    retryConnection
+    retryConnection,
+    setPeerVerified,
+    setAutoAccept,
+    acceptFileOffer,
+    declineFileOffer
   } = usePeerConnection();
+  const { records: historyRecords, clearHistory } = useTransferHistory();
   const [showQR, setShowQR] = useState(false);
+  const [showPairingCode, setShowPairingCode] = useState(false);
   const [showScanner, setShowScanner] = useState(false);
   const [showConnectDialog, setShowConnectDialog] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showContacts, setShowContacts] = useState(false);
+  const [showRelaySettings, setShowRelaySettings] = useState(false);
   const [targetPeerId, setTargetPeerId] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+  // Peers ticked as recipients; with none ticked, files go to the first peer
+  const [selectedPeers, setSelectedPeers] = useState<Set<string>>(new Set());
 
   const handleConnect = useCallback(() => {
     setShowConnectDialog(true);
@@ -34,41 +89,154 @@ function App() {
 
   const handleConnectSubmit = useCallback(() => {
     if (targetPeerId.trim()) {
-      connectToPeer(targetPeerId.trim());
+      connectWithCode(targetPeerId.trim());
     }
     setShowConnectDialog(false);
-  }, [targetPeerId, connectToPeer]);
+  }, [targetPeerId, connectWithCode]);
+
+  // Opening a /#/connect/<code> link connects once we are registered with the relay
+  useEffect(() => {
+    if (!relayConnected) return;
+
+    const connectFromLink = () => {
+      const target = parseConnectLink(window.location.hash);
+      if (!target) return;
+
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      setTargetPeerId(target);
+      connectWithCode(target);
+    };
+
+    connectFromLink();
+    window.addEventListener('hashchange', connectFromLink);
+    return () => window.removeEventListener('hashchange', connectFromLink);
+  }, [relayConnected, connectWithCode]);
+
+  const relayHost = useMemo(() => {
+    try {
+      return new URL(relayHealth.url).host;
+    } catch {
+      return relayHealth.url;
+    }
+  }, [relayHealth.url]);
+
+  const contactsById = useMemo(
+    () => new Map(contacts.map(contact => [contact.peerId, contact])),
+    [contacts]
+  );
+  const onlinePeerIds = useMemo(
+    () => new Set(connections.map(connection => connection.id)),
+    [connections]
+  );
+
+  const handleSaveContact = useCallback((id: string) => {
+    const alias = window.prompt('Name for this contact', id.slice(0, 8));
+    if (alias !== null) {
+      addContact(id, alias);
+    }
+  }, [addContact]);
+
+  const togglePeerSelected = useCallback((id: string) => {
+    setSelectedPeers(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const sendToRecipients = useCallback(
+    (selected: SelectedFile[]) => {
+      if (selected.length === 0 || connections.length === 0) return;
+
+      const ticked = connections.filter(connection => selectedPeers.has(connection.id));
+      const recipients = (ticked.length > 0 ? ticked : [connections[0]]).map(connection => connection.id);
+
+      // A single file is encrypted once and fanned out to everyone
+      if (selected.length === 1 && !selected[0].path.includes('/')) {
+        broadcastFile(selected[0].file, recipients);
+      } else {
+        recipients.forEach(recipient => sendFiles(selected, recipient));
+      }
+    },
+    [connections, selectedPeers, broadcastFile, sendFiles]
+  );
 
   const handleFileSelect = useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
-      const file = event.target.files?.[0];
-      if (file && connections.length > 0) {
-        sendFile(file, connections[0].id);
-      }
+      const selected = event.target.files ? fromFileList(event.target.files) : [];
+      // Let the same selection be picked again
+      event.target.value = '';
+      sendToRecipients(selected);
+    },
+    [sendToRecipients]
+  );
+
+  const handleDragOver = useCallback((event: React.DragEvent) => {
+    // Ignore drags that carry no files, like reordering the queue
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setIsDragging(connections.length > 0);
+  }, [connections]);
+
+  const handleDrop = useCallback(
+    async (event: React.DragEvent) => {
+      if (!event.dataTransfer.types.includes('Files')) return;
+      event.preventDefault();
+      setIsDragging(false);
+      if (connections.length === 0) return;
+
+      sendToRecipients(await fromDataTransfer(event.dataTransfer));
     },
-    [connections, sendFile]
+    [connections, sendToRecipients]
   );
 
-  const handleScan = useCallback((scannedPeerId: string) => {
-    connectToPeer(scannedPeerId);
+  // Our QR codes hold a connect link; a bare peer id still works
+  const handleScan = useCallback((scanned: string) => {
+    connectWithCode(parseConnectLink(scanned) ?? scanned);
     setShowScanner(false);
-  }, [connectToPeer]);
+  }, [connectWithCode]);
 
   return (
     <motion.div 
       initial={{ opacity: 0 }}
       animate={{ opacity: 1 }}
       className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-50"
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
     >
       <Toaster position="top-right" />
+
+      {isDragging && (
+        <div className="fixed inset-0 z-40 pointer-events-none flex items-center justify-center bg-blue-500/10 border-4 border-dashed border-blue-400">
+          <p className="text-lg font-semibold text-blue-700">Drop files or folders to send</p>
+        </div>
+      )}
       
       <AnimatePresence>
-        {pendingConnections.map((pendingPeerId) => (
+        {pendingConnections.map((pending) => (
           <ConnectionRequest
-            key={pendingPeerId}
-            peerId={pendingPeerId}
-            onAccept={() => acceptConnection(pendingPeerId)}
-            onReject={() => rejectConnection(pendingPeerId)}
+            key={pending.peerId}
+            peerId={pending.peerId}
+            safetyCode={pending.safetyCode}
+            alias={contactsById.get(pending.peerId)?.alias}
+            onAccept={(verified) => acceptConnection(pending.peerId, verified)}
+            onReject={() => rejectConnection(pending.peerId)}
+          />
+        ))}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {fileOffers.map((offer) => (
+          <FileOfferPrompt
+            key={offer.id}
+            offer={offer}
+            onAccept={(alwaysAccept) => acceptFileOffer(offer.id, alwaysAccept)}
+            onDecline={() => declineFileOffer(offer.id)}
           />
         ))}
       </AnimatePresence>
@@ -86,6 +254,52 @@ function App() {
         )}
       </AnimatePresence>
 
+      <AnimatePresence>
+        {sessionTakenOver && <SessionTakeover onReclaim={reclaimSession} />}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showContacts && (
+          <ContactsPanel
+            contacts={contacts}
+            onlinePeerIds={onlinePeerIds}
+            onConnect={(id) => {
+              setShowContacts(false);
+              connectWithCode(id);
+            }}
+            onUpdate={updateContact}
+            onRemove={removeContact}
+            onClose={() => setShowContacts(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showRelaySettings && (
+          <RelaySettings
+            health={relayHealth}
+            config={relayConfig}
+            onSave={setRelayUrls}
+            onReconnect={reconnectRelay}
+            liveness={livenessThresholds}
+            onLivenessChange={setLivenessThresholds}
+            onClose={() => setShowRelaySettings(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showHistory && (
+          <HistoryPanel
+            records={historyRecords}
+            onClear={() => {
+              clearHistory().catch((error) => console.error('Failed to clear history:', error));
+            }}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
+      </AnimatePresence>
+
       <div className="max-w-4xl mx-auto p-3 sm:p-6">
         <motion.div 
           initial={{ y: -20, opacity: 0 }}
@@ -93,15 +307,34 @@ function App() {
           className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg p-4 sm:p-6 mb-6"
         >
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
-            <motion.div 
-              className="flex items-center space-x-3"
-              whileHover={{ scale: 1.05 }}
-            >
-              <Share2 className="w-7 h-7 text-blue-500" />
-              <h1 className="text-xl sm:text-2xl font-bold bg-gradient-to-r from-purple-600 via-blue-600 to-indigo-600 text-transparent bg-clip-text">
-                Sharencrypt
-              </h1>
-            </motion.div>
+            <div className="flex flex-wrap items-center gap-3">
+              <motion.div 
+                className="flex items-center space-x-3"
+                whileHover={{ scale: 1.05 }}
+              >
+                <Share2 className="w-7 h-7 text-blue-500" />
+                <h1 className="text-xl sm:text-2xl font-bold bg-gradient-to-r from-purple-600 via-blue-600 to-indigo-600 text-transparent bg-clip-text">
+                  Sharencrypt
+                </h1>
+              </motion.div>
+              <button
+                onClick={() => setShowRelaySettings(true)}
+                title={`Relay: ${relayHealth.url} — click to change`}
+                className="flex items-center space-x-2 px-2 py-1 text-xs text-gray-600 bg-gray-100 hover:bg-gray-200 rounded-full transition-colors max-w-[16rem]"
+              >
+                <span className={`w-2 h-2 rounded-full flex-shrink-0 ${
+                  relayHealth.state === 'online'
+                    ? 'bg-green-500'
+                    : relayHealth.state === 'connecting' ? 'bg-amber-400 animate-pulse' : 'bg-red-500'
+                }`} />
+                <span className="font-mono truncate">{relayHost}</span>
+                {relayHealth.state === 'online' && relayHealth.latency !== undefined && (
+                  <span className="flex-shrink-0">{relayHealth.latency} ms</span>
+                )}
+                {relayHealth.state === 'offline' && <span className="flex-shrink-0">offline</span>}
+                {relayHealth.fallback && <span className="flex-shrink-0 text-amber-600">fallback</span>}
+              </button>
+            </div>
             <div className="flex flex-wrap items-center gap-3">
               <motion.button
                 whileHover={{ scale: 1.05 }}
@@ -112,6 +345,24 @@ function App() {
                 <Users className="w-5 h-5" />
                 <span>Connect</span>
               </motion.button>
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => setShowHistory(true)}
+                className="flex items-center justify-center space-x-2 px-4 py-2 bg-white text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50 transition-all shadow-md hover:shadow-lg w-full sm:w-auto"
+              >
+                <History className="w-5 h-5" />
+                <span>History</span>
+              </motion.button>
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => setShowContacts(true)}
+                className="flex items-center justify-center space-x-2 px-4 py-2 bg-white text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50 transition-all shadow-md hover:shadow-lg w-full sm:w-auto"
+              >
+                <BookUser className="w-5 h-5" />
+                <span>Contacts</span>
+              </motion.button>
               <motion.label
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
@@ -122,12 +373,32 @@ function App() {
                 } text-white rounded-lg transition-all w-full sm:w-auto`}
               >
                 <Upload className="w-5 h-5" />
-                <span>Send File</span>
+                <span>Send Files</span>
+                <input
+                  type="file"
+                  multiple
+                  className="hidden"
+                  onChange={handleFileSelect}
+                  disabled={connections.length === 0}
+                />
+              </motion.label>
+              <motion.label
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                className={`flex items-center justify-center space-x-2 px-4 py-2 ${
+                  connections.length > 0 
+                    ? 'bg-gradient-to-r from-teal-500 to-cyan-500 hover:from-teal-600 hover:to-cyan-600 cursor-pointer shadow-md hover:shadow-lg' 
+                    : 'bg-gray-400 cursor-not-allowed'
+                } text-white rounded-lg transition-all w-full sm:w-auto`}
+              >
+                <FolderUp className="w-5 h-5" />
+                <span>Send Folder</span>
                 <input
                   type="file"
                   className="hidden"
                   onChange={handleFileSelect}
                   disabled={connections.length === 0}
+                  {...({ webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>)}
                 />
               </motion.label>
             </div>
@@ -140,7 +411,7 @@ function App() {
             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
               <div>
                 <p className="text-sm font-medium text-gray-500">Your Peer ID:</p>
-                <p className="font-mono text-sm text-gray-900 select-all cursor-pointer break-all">{peerId}</p>
+                <p className="font-mono text-sm text-gray-900 select-all cursor-pointer break-all">{peerId || 'Loading…'}</p>
               </div>
               <div className="flex flex-wrap gap-2">
                 <motion.button
@@ -161,17 +432,39 @@ function App() {
                   <QrCode className="w-5 h-5" />
                   <span>{showQR ? 'Hide QR' : 'Show QR'}</span>
                 </motion.button>
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => setShowPairingCode(!showPairingCode)}
+                  disabled={!peerId}
+                  className="flex items-center space-x-2 px-3 py-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  <Hash className="w-5 h-5" />
+                  <span>{showPairingCode ? 'Hide Code' : 'Pairing Code'}</span>
+                </motion.button>
               </div>
             </div>
             <AnimatePresence>
-              {showQR && (
+              {showQR && peerId && (
                 <motion.div 
                   initial={{ opacity: 0, height: 0 }}
                   animate={{ opacity: 1, height: 'auto' }}
                   exit={{ opacity: 0, height: 0 }}
                   className="mt-4 flex justify-center overflow-hidden"
                 >
-                  <QRCodeSVG value={peerId} size={200} />
+                  <QRCodeSVG value={createConnectLink(peerId)} size={200} />
+                </motion.div>
+              )}
+            </AnimatePresence>
+            <AnimatePresence>
+              {showPairingCode && peerId && (
+                <motion.div 
+                  initial={{ opacity: 0, height: 0 }}
+                  animate={{ opacity: 1, height: 'auto' }}
+                  exit={{ opacity: 0, height: 0 }}
+                  className="mt-4 overflow-hidden"
+                >
+                  <PairingCodePanel onCreate={createPairingCode} />
                 </motion.div>
               )}
             </AnimatePresence>
@@ -182,34 +475,118 @@ function App() {
               <h2 className="text-lg font-semibold text-gray-900 mb-3">
                 Connected Peers ({connections.length})
               </h2>
+              {connections.length > 1 && (
+                <p className="text-sm text-gray-500 -mt-2 mb-3">
+                  Tick peers to send to several at once
+                </p>
+              )}
               <div className="space-y-2">
                 <AnimatePresence>
-                  {connections.map((connection) => (
-                    <motion.div
-                      key={connection.id}
-                      initial={{ opacity: 0, y: -20 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      exit={{ opacity: 0, y: -20 }}
-                      className="bg-white/50 backdrop-blur-sm rounded-lg p-3 flex items-center justify-between"
-                    >
-                      <span className="font-mono text-xs sm:text-sm select-all cursor-pointer break-all max-w-[60%] truncate">
-                        {connection.id}
-                      </span>
-                      <div className="flex items-center space-x-3">
-                        <span className="px-2 py-1 bg-green-100 text-green-800 text-xs rounded-full">
-                          Connected
-                        </span>
-                        <motion.button
-                          whileHover={{ scale: 1.1 }}
-                          whileTap={{ scale: 0.9 }}
-                          onClick={() => disconnectPeer(connection.id)}
-                          className="text-red-500 hover:text-red-600 transition-colors"
-                        >
-                          <X className="w-5 h-5" />
-                        </motion.button>
-                      </div>
-                    </motion.div>
-                  ))}
+                  {connections.map((connection) => {
+                    const contact = contactsById.get(connection.id);
+                    return (
+                      <motion.div
+                        key={connection.id}
+                        initial={{ opacity: 0, y: -20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -20 }}
+                        className="bg-white/50 backdrop-blur-sm rounded-lg p-3 flex items-center justify-between"
+                      >
+                        <label className="flex items-center mr-3 cursor-pointer" title="Send to this peer">
+                          <input
+                            type="checkbox"
+                            checked={selectedPeers.has(connection.id)}
+                            onChange={() => togglePeerSelected(connection.id)}
+                            className="rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+                          />
+                        </label>
+                        {contact && (
+                          <span className="mr-2">
+                            <ContactAvatar alias={contact.alias} color={contact.color} size="sm" />
+                          </span>
+                        )}
+                        <div className="min-w-0 max-w-[60%] flex-1">
+                          {contact && (
+                            <span className="block font-medium text-gray-900 truncate">{contact.alias}</span>
+                          )}
+                          <span className="block font-mono text-xs sm:text-sm select-all cursor-pointer break-all truncate">
+                            {connection.id}
+                          </span>
+                          {connection.safetyCode && (
+                            <span className="block text-base tracking-widest mt-1" title="Safety code">
+                              {connection.safetyCode}
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-3">
+                          {!contact && (
+                            <motion.button
+                              whileHover={{ scale: 1.05 }}
+                              whileTap={{ scale: 0.95 }}
+                              onClick={() => handleSaveContact(connection.id)}
+                              title="Save to contacts"
+                              className="flex items-center space-x-1 px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-600 hover:bg-gray-200 transition-colors"
+                            >
+                              <UserPlus className="w-4 h-4" />
+                              <span>Save</span>
+                            </motion.button>
+                          )}
+                          <motion.button
+                            whileHover={{ scale: 1.05 }}
+                            whileTap={{ scale: 0.95 }}
+                            onClick={() => setPeerVerified(connection.id, !connection.verified)}
+                            title={connection.verified
+                              ? 'Verified — click to clear'
+                              : 'Mark as verified once the safety codes match'}
+                            className={`flex items-center space-x-1 px-2 py-1 text-xs rounded-full transition-colors ${
+                              connection.verified
+                                ? 'bg-blue-100 text-blue-800 hover:bg-blue-200'
+                                : 'bg-orange-100 text-orange-800 hover:bg-orange-200'
+                            }`}
+                          >
+                            {connection.verified
+                              ? <ShieldCheck className="w-4 h-4" />
+                              : <ShieldAlert className="w-4 h-4" />}
+                            <span>{connection.verified ? 'Verified' : 'Verify'}</span>
+                          </motion.button>
+                          <motion.button
+                            whileHover={{ scale: 1.05 }}
+                            whileTap={{ scale: 0.95 }}
+                            onClick={() => setAutoAccept(connection.id, !connection.autoAccept)}
+                            title={connection.autoAccept
+                              ? 'Files from this peer are accepted without asking — click to ask again'
+                              : 'Ask before accepting files from this peer'}
+                            className={`flex items-center space-x-1 px-2 py-1 text-xs rounded-full transition-colors ${
+                              connection.autoAccept
+                                ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                            }`}
+                          >
+                            <FileCheck className="w-4 h-4" />
+                            <span>{connection.autoAccept ? 'Auto-accept' : 'Ask'}</span>
+                          </motion.button>
+                          <SignalIndicator health={connection.health} rtt={connection.rtt} />
+                          <span className={`px-2 py-1 text-xs rounded-full ${
+                            connection.mode === 'direct'
+                              ? 'bg-green-100 text-green-800'
+                              : connection.mode === 'disconnected'
+                                ? 'bg-gray-100 text-gray-500'
+                                : 'bg-yellow-100 text-yellow-800'
+                          }`}>
+                            {connection.mode === 'direct' ? 'Direct' : connection.mode === 'disconnected' ? 'Offline' : 'Relay'}
+                          </span>
+                          <motion.button
+                            whileHover={{ scale: 1.1 }}
+                            whileTap={{ scale: 0.9 }}
+                            onClick={() => disconnectPeer(connection.id)}
+                            className="text-red-500 hover:text-red-600 transition-colors"
+                          >
+                            <X className="w-5 h-5" />
+                          </motion.button>
+                        </div>
+                      </motion.div>
+                    );
+                  })}
                 </AnimatePresence>
                 {connections.length === 0 && (
                   <motion.div 
@@ -226,10 +603,37 @@ function App() {
             </motion.div>
 
             <motion.div layout>
-              <h2 className="text-lg font-semibold text-gray-900 mb-3">
-                Files
-              </h2>
-              <FileList files={files} />
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-lg font-semibold text-gray-900">
+                  Files
+                </h2>
+                <label className="flex items-center space-x-2 text-sm text-gray-600">
+                  <span>Parallel transfers</span>
+                  <select
+                    value={maxConcurrentTransfers}
+                    onChange={(e) => setMaxConcurrentTransfers(Number(e.target.value))}
+                    className="rounded-lg border-gray-300 bg-white/70 text-sm py-1"
+                  >
+                    {Array.from({ length: MAX_CONCURRENT_LIMIT }, (_, i) => i + 1).map(count => (
+                      <option key={count} value={count}>{count}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <SwarmFileList files={swarmFiles} onDownload={downloadFromSwarm} />
+              <FileList
+                files={files}
+                groups={groups}
+                canSaveFolder={canSaveToDirectory()}
+                onSaveGroupAsFolder={saveGroupAsFolder}
+                onSaveGroupAsZip={saveGroupAsZip}
+                onCancel={cancelTransfer}
+                onPause={pauseTransfer}
+                onResume={resumeTransfer}
+                onShare={shareToSwarm}
+                queue={queue}
+                onMoveQueued={moveQueuedTransfer}
+              />
               {files.length === 0 && (
                 <motion.div 
                   initial={{ opacity: 0 }}
@@ -238,7 +642,7 @@ function App() {
                 >
                   <Share2 className="w-10 h-10 sm:w-12 sm:h-12 mx-auto mb-3 text-gray-400" />
                   <p>No files transferred yet</p>
-                  <p className="text-sm">Connect to a peer and start sharing!</p>
+                  <p className="text-sm">Connect to a peer, then pick or drop files and folders here</p>
                 </motion.div>
               )}
             </motion.div>
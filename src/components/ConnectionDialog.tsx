@@ -57,7 +57,7 @@ export const ConnectionDialog: React.FC<ConnectionDialogProps> = ({
             <form onSubmit={handleSubmit}>
               <div className="mb-4">
                 <label htmlFor="peerId" className="block text-sm font-medium text-gray-700 mb-1">
-                  Enter Peer ID
+                  Enter Peer ID or Pairing Code
                 </label>
                 <input
                   type="text"
@@ -65,7 +65,7 @@ export const ConnectionDialog: React.FC<ConnectionDialogProps> = ({
                   value={targetPeerId}
                   onChange={(e) => setTargetPeerId(e.target.value)}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                  placeholder="Paste peer ID here"
+                  placeholder="Paste a peer ID or type a 6-digit code"
                   autoFocus
                 />
               </div>
@@ -117,7 +117,7 @@ export const ConnectionDialog: React.FC<ConnectionDialogProps> = ({
               </div>
               <h3 className="text-lg font-medium text-gray-900 mb-2">Connection Failed</h3>
               <p className="text-gray-500 text-center mb-4">
-                Unable to connect to the peer. Please check the ID and try again.
+                Unable to connect to the peer. Please check the ID or code and try again.
               </p>
               <div className="flex space-x-3 w-full">
                 <motion.button
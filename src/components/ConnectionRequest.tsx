@@ -1,18 +1,25 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { UserPlus } from 'lucide-react';
 
 interface ConnectionRequestProps {
   peerId: string;
-  onAccept: () => void;
+  safetyCode: string;
+  // Set when the peer is a saved contact
+  alias?: string;
+  onAccept: (verified: boolean) => void;
   onReject: () => void;
 }
 
 export const ConnectionRequest: React.FC<ConnectionRequestProps> = ({
   peerId,
+  safetyCode,
+  alias,
   onAccept,
   onReject,
 }) => {
+  const [codeMatches, setCodeMatches] = useState(false);
+
   return (
     <motion.div
       initial={{ opacity: 0, y: -20 }}
@@ -28,16 +35,31 @@ export const ConnectionRequest: React.FC<ConnectionRequestProps> = ({
           <div className="flex-1 min-w-0">
             <h3 className="font-medium text-gray-900">Connection Request</h3>
             <p className="text-sm text-gray-500 mt-1">
-              A peer wants to connect with you:
+              {alias ? <><span className="font-medium text-gray-900">{alias}</span> wants to connect with you:</> : 'A peer wants to connect with you:'}
             </p>
             <p className="text-sm font-mono bg-gray-50 p-2 rounded mt-2 select-all break-all">
               {peerId}
             </p>
+            <p className="text-sm text-gray-500 mt-3">
+              Safety code — check it matches the other screen:
+            </p>
+            <p className="text-2xl text-center tracking-widest bg-gray-50 p-2 rounded mt-1">
+              {safetyCode}
+            </p>
+            <label className="flex items-center space-x-2 text-sm text-gray-700 mt-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={codeMatches}
+                onChange={(e) => setCodeMatches(e.target.checked)}
+                className="rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+              />
+              <span>The codes match, mark this peer as verified</span>
+            </label>
             <div className="flex space-x-2 mt-4">
               <motion.button
                 whileHover={{ scale: 1.02 }}
                 whileTap={{ scale: 0.98 }}
-                onClick={onAccept}
+                onClick={() => onAccept(codeMatches)}
                 className="flex-1 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors font-medium"
               >
                 Accept
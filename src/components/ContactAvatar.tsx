@@ -0,0 +1,18 @@
+import React from 'react';
+
+interface ContactAvatarProps {
+  alias: string;
+  color: string;
+  size?: 'sm' | 'md';
+}
+
+export const ContactAvatar: React.FC<ContactAvatarProps> = ({ alias, color, size = 'md' }) => (
+  <span
+    className={`flex items-center justify-center rounded-full text-white font-semibold flex-shrink-0 ${
+      size === 'sm' ? 'w-7 h-7 text-xs' : 'w-10 h-10 text-base'
+    }`}
+    style={{ backgroundColor: color }}
+  >
+    {alias.trim().charAt(0).toUpperCase() || '?'}
+  </span>
+);
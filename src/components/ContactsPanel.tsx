@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { BookUser, X, Pencil, Check, ShieldCheck, ShieldAlert, Star, Trash2, Users } from 'lucide-react';
+import { Contact } from '../types';
+import { AVATAR_COLORS } from '../services/contacts';
+import { ContactAvatar } from './ContactAvatar';
+
+interface ContactsPanelProps {
+  contacts: Contact[];
+  onlinePeerIds: Set<string>;
+  onConnect: (peerId: string) => void;
+  onUpdate: (peerId: string, changes: Partial<Pick<Contact, 'alias' | 'color' | 'trusted'>>) => void;
+  onRemove: (peerId: string) => void;
+  onClose: () => void;
+}
+
+// Groups of four hex digits are easier to compare by eye
+const formatFingerprint = (fingerprint: string) => fingerprint.match(/.{1,4}/g)?.join(' ') ?? fingerprint;
+
+const formatLastSeen = (timestamp: number) => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)} h ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+export const ContactsPanel: React.FC<ContactsPanelProps> = ({
+  contacts,
+  onlinePeerIds,
+  onConnect,
+  onUpdate,
+  onRemove,
+  onClose,
+}) => {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [alias, setAlias] = useState('');
+
+  const sorted = [...contacts].sort((a, b) => a.alias.localeCompare(b.alias));
+
+  const startEditing = (contact: Contact) => {
+    setEditing(contact.peerId);
+    setAlias(contact.alias);
+  };
+
+  const saveEditing = (peerId: string) => {
+    onUpdate(peerId, { alias });
+    setEditing(null);
+  };
+
+  const handleRemove = (contact: Contact) => {
+    if (window.confirm(`Remove ${contact.alias} from your contacts?`)) {
+      onRemove(contact.peerId);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.95, y: 20 }}
+        className="bg-white rounded-xl shadow-xl max-w-2xl w-full mx-auto overflow-hidden flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 bg-gradient-to-r from-blue-500 to-indigo-500 flex items-center justify-between">
+          <div className="flex items-center space-x-2 text-white">
+            <BookUser className="w-6 h-6" />
+            <h3 className="text-xl font-semibold">Contacts</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-white hover:bg-white/20 rounded-full p-2 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {sorted.length === 0 && (
+            <p className="text-center text-gray-500 py-8">
+              No contacts yet. Save a connected peer to find them here next time.
+            </p>
+          )}
+          {sorted.map(contact => {
+            const online = onlinePeerIds.has(contact.peerId);
+            return (
+              <div
+                key={contact.peerId}
+                className="bg-white/50 border border-gray-100 p-3 rounded-lg"
+              >
+                <div className="flex items-center space-x-3">
+                  <ContactAvatar alias={contact.alias} color={contact.color} />
+                  <div className="flex-1 min-w-0">
+                    {editing === contact.peerId ? (
+                      <form
+                        className="flex items-center space-x-2"
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          saveEditing(contact.peerId);
+                        }}
+                      >
+                        <input
+                          type="text"
+                          value={alias}
+                          onChange={(e) => setAlias(e.target.value)}
+                          className="flex-1 px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          autoFocus
+                        />
+                        <button type="submit" className="text-green-600 hover:text-green-700" title="Save name">
+                          <Check className="w-4 h-4" />
+                        </button>
+                      </form>
+                    ) : (
+                      <div className="flex items-center space-x-2">
+                        <p className="font-medium text-gray-900 truncate">{contact.alias}</p>
+                        <button
+                          onClick={() => startEditing(contact)}
+                          className="text-gray-400 hover:text-gray-600"
+                          title="Rename"
+                        >
+                          <Pencil className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      {online ? (
+                        <span className="text-green-600">Connected</span>
+                      ) : (
+                        `Last seen ${formatLastSeen(contact.lastSeen)}`
+                      )}
+                    </p>
+                  </div>
+                  {!online && (
+                    <motion.button
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      onClick={() => onConnect(contact.peerId)}
+                      className="flex items-center space-x-1 px-3 py-1.5 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 transition-colors"
+                    >
+                      <Users className="w-4 h-4" />
+                      <span>Connect</span>
+                    </motion.button>
+                  )}
+                  <button
+                    onClick={() => handleRemove(contact)}
+                    className="text-red-500 hover:text-red-600 transition-colors"
+                    title="Remove contact"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+
+                <p className="text-xs font-mono text-gray-400 mt-2 break-all" title="Identity key fingerprint">
+                  {formatFingerprint(contact.fingerprint)}
+                </p>
+
+                <div className="flex flex-wrap items-center gap-2 mt-2">
+                  <span className={`flex items-center space-x-1 px-2 py-1 text-xs rounded-full ${
+                    contact.verified ? 'bg-blue-100 text-blue-800' : 'bg-orange-100 text-orange-800'
+                  }`}>
+                    {contact.verified ? <ShieldCheck className="w-4 h-4" /> : <ShieldAlert className="w-4 h-4" />}
+                    <span>{contact.verified ? 'Verified' : 'Not verified'}</span>
+                  </span>
+                  <button
+                    onClick={() => onUpdate(contact.peerId, { trusted: !contact.trusted })}
+                    title={contact.trusted
+                      ? 'Connects automatically without asking — click to ask again'
+                      : 'Accept connections from this contact and reconnect automatically'}
+                    className={`flex items-center space-x-1 px-2 py-1 text-xs rounded-full transition-colors ${
+                      contact.trusted
+                        ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                        : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                    }`}
+                  >
+                    <Star className="w-4 h-4" />
+                    <span>{contact.trusted ? 'Trusted' : 'Trust'}</span>
+                  </button>
+                  <div className="flex items-center gap-1 ml-auto">
+                    {AVATAR_COLORS.map(color => (
+                      <button
+                        key={color}
+                        onClick={() => onUpdate(contact.peerId, { color })}
+                        className={`w-4 h-4 rounded-full ${color === contact.color ? 'ring-2 ring-offset-1 ring-gray-400' : ''}`}
+                        style={{ backgroundColor: color }}
+                        title="Avatar colour"
+                      />
+                    ))}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -1,23 +1,95 @@
-import React from 'react';
-import { FileTransfer } from '../types';
-import { File, CheckCircle, XCircle, Clock } from 'lucide-react';
+import React, { useState } from 'react';
+import { FileTransfer, TransferGroup } from '../types';
+import {
+  File,
+  CheckCircle,
+  XCircle,
+  Clock,
+  ShieldAlert,
+  Loader2,
+  Folder,
+  FolderDown,
+  Download,
+  ChevronDown,
+  ChevronRight,
+  Pause,
+  Play,
+  X,
+  GripVertical,
+  Users,
+  Share2
+} from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ProgressBar } from './ProgressBar';
+import { Sparkline } from './Sparkline';
 
 interface FileListProps {
   files: FileTransfer[];
+  groups?: TransferGroup[];
+  canSaveFolder?: boolean;
+  onSaveGroupAsFolder?: (groupId: string) => void;
+  onSaveGroupAsZip?: (groupId: string) => void;
+  onCancel?: (transferId: string) => void;
+  onPause?: (transferId: string) => void;
+  onResume?: (transferId: string) => void;
+  onShare?: (transferId: string) => void;
+  // Queued transfer ids in start order
+  queue?: string[];
+  onMoveQueued?: (transferId: string, beforeId: string | null) => void;
 }
 
-export const FileList: React.FC<FileListProps> = ({ files }) => {
+type ListItem =
+  | { kind: 'file'; id: string; status: FileTransfer['status']; file: FileTransfer }
+  | { kind: 'group'; id: string; status: TransferGroup['status']; group: TransferGroup };
+
+const ACTIVE_STATUSES = ['pending', 'transferring', 'paused', 'verifying'];
+
+export const FileList: React.FC<FileListProps> = ({
+  files,
+  groups = [],
+  canSaveFolder = false,
+  onSaveGroupAsFolder,
+  onSaveGroupAsZip,
+  onCancel,
+  onPause,
+  onResume,
+  onShare,
+  queue = [],
+  onMoveQueued
+}) => {
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  const toggleGroup = (groupId: string) => {
+    setExpandedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(groupId)) {
+        next.delete(groupId);
+      } else {
+        next.add(groupId);
+      }
+      return next;
+    });
+  };
+
   const getStatusIcon = (status: FileTransfer['status']) => {
     switch (status) {
       case 'completed':
         return <CheckCircle className="w-5 h-5 text-green-500" />;
       case 'error':
         return <XCircle className="w-5 h-5 text-red-500" />;
+      case 'declined':
+      case 'cancelled':
+        return <XCircle className="w-5 h-5 text-gray-400" />;
+      case 'paused':
+        return <Pause className="w-5 h-5 text-gray-500" />;
+      case 'queued':
+        return <Clock className="w-5 h-5 text-gray-400" />;
       case 'pending':
       case 'transferring':
         return <Clock className="w-5 h-5 text-yellow-500" />;
+      case 'verifying':
+        return <Loader2 className="w-5 h-5 text-blue-500 animate-spin" />;
       default:
         return null;
     }
@@ -30,51 +102,394 @@ export const FileList: React.FC<FileListProps> = ({ files }) => {
     return (bytes / (1024 * 1024 * 1024)).toFixed(2) + ' GB';
   };
 
-  return (
-    <div className="space-y-4">
-      <AnimatePresence>
-        {files.map((file) => (
-          <motion.div
-            key={file.id}
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            exit={{ opacity: 0, y: -20 }}
-            className="bg-white/50 backdrop-blur-sm border border-gray-100 p-4 rounded-lg shadow-sm hover:shadow-md transition-all"
+  // One decimal is plenty for numbers that change every second
+  const formatAmount = (bytes: number) => {
+    if (bytes < 1024) return Math.round(bytes) + ' B';
+    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+    if (bytes < 1024 * 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+    return (bytes / (1024 * 1024 * 1024)).toFixed(1) + ' GB';
+  };
+
+  const formatEta = (seconds: number) => {
+    if (seconds < 60) return `${Math.max(1, Math.round(seconds))} s left`;
+    if (seconds < 3600) return `${Math.round(seconds / 60)} min left`;
+    return `${Math.floor(seconds / 3600)} h ${Math.round((seconds % 3600) / 60)} min left`;
+  };
+
+  // "12.4 MB of 1.2 GB · 8.3 MB/s · 2 min left"
+  const transferDetail = (file: FileTransfer) => {
+    if (file.bytesTransferred === undefined) return undefined;
+
+    const parts = [`${formatAmount(file.bytesTransferred)} of ${formatAmount(file.size)}`];
+    if (file.status === 'transferring' && file.throughput !== undefined) {
+      parts.push(`${formatAmount(file.throughput)}/s`);
+      if (file.eta !== undefined) {
+        parts.push(formatEta(file.eta));
+      }
+    }
+    return parts.join(' · ');
+  };
+
+  const unverifiedBadge = (
+    <span
+      className="flex items-center space-x-1 px-2 py-0.5 bg-orange-100 text-orange-800 text-xs rounded-full"
+      title="The peer's safety code was not verified"
+    >
+      <ShieldAlert className="w-3 h-3" />
+      <span>Unverified peer</span>
+    </span>
+  );
+
+  const renderControls = (file: FileTransfer) => {
+    const canPause = file.status === 'transferring';
+    const canResume = file.status === 'paused';
+    const canCancel = file.status === 'queued' || file.status === 'pending' || canPause || canResume;
+    if (!canCancel) return null;
+
+    return (
+      <div className="flex items-center space-x-1">
+        {canPause && (
+          <motion.button
+            whileHover={{ scale: 1.1 }}
+            whileTap={{ scale: 0.9 }}
+            onClick={() => onPause?.(file.id)}
+            className="p-1 text-gray-500 hover:text-gray-700 transition-colors"
+            title="Pause"
+          >
+            <Pause className="w-4 h-4" />
+          </motion.button>
+        )}
+        {canResume && (
+          <motion.button
+            whileHover={{ scale: 1.1 }}
+            whileTap={{ scale: 0.9 }}
+            onClick={() => onResume?.(file.id)}
+            className="p-1 text-blue-500 hover:text-blue-600 transition-colors"
+            title="Resume"
           >
-            <div className="flex items-center space-x-4">
-              <motion.div 
-                whileHover={{ scale: 1.1 }}
-                className="flex-shrink-0"
+            <Play className="w-4 h-4" />
+          </motion.button>
+        )}
+        <motion.button
+          whileHover={{ scale: 1.1 }}
+          whileTap={{ scale: 0.9 }}
+          onClick={() => onCancel?.(file.id)}
+          className="p-1 text-red-500 hover:text-red-600 transition-colors"
+          title="Cancel"
+        >
+          <X className="w-4 h-4" />
+        </motion.button>
+      </div>
+    );
+  };
+
+  const renderFile = (file: FileTransfer) => (
+    <motion.div
+      key={file.id}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="bg-white/50 backdrop-blur-sm border border-gray-100 p-4 rounded-lg shadow-sm hover:shadow-md transition-all"
+    >
+      <div className="flex items-center space-x-4">
+        <motion.div
+          whileHover={{ scale: 1.1 }}
+          className="flex-shrink-0"
+        >
+          <File className="w-8 h-8 text-blue-500" />
+        </motion.div>
+        <div className="flex-1 min-w-0">
+          <h3 className="font-medium text-gray-900 truncate">
+            {file.broadcastId ? `To ${file.peerId}` : file.path ?? file.name}
+          </h3>
+          <div className="flex items-center gap-2">
+            <p className="text-sm text-gray-500">{formatSize(file.size)}</p>
+            {file.peerVerified === false && !file.groupId && unverifiedBadge}
+            {file.compressionRatio !== undefined && (
+              <span
+                className="px-2 py-0.5 bg-green-100 text-green-800 text-xs rounded-full"
+                title="Compressed before encryption"
+              >
+                Compressed {file.compressionRatio.toFixed(1)}:1
+              </span>
+            )}
+            {file.swarm === 'shared' && (
+              <span
+                className="flex items-center space-x-1 px-2 py-0.5 bg-blue-100 text-blue-800 text-xs rounded-full"
+                title="Connected peers can download this file from you"
               >
-                <File className="w-8 h-8 text-blue-500" />
-              </motion.div>
-              <div className="flex-1 min-w-0">
-                <h3 className="font-medium text-gray-900 truncate">{file.name}</h3>
-                <p className="text-sm text-gray-500">{formatSize(file.size)}</p>
-                {file.status === 'transferring' && (
-                  <>
-                    <ProgressBar
-                      progress={file.progress}
-                      status="Transfer Progress"
-                      color="bg-blue-500"
-                    />
-                    {file.encryptionProgress !== undefined && (
-                      <ProgressBar
-                        progress={file.encryptionProgress}
-                        status="Encryption Progress"
-                        color="bg-purple-500"
-                      />
-                    )}
-                  </>
+                <Share2 className="w-3 h-3" />
+                <span>Shared</span>
+              </span>
+            )}
+            {file.sources !== undefined && file.status === 'transferring' && (
+              <span className="text-xs text-gray-500">
+                from {file.sources} {file.sources === 1 ? 'peer' : 'peers'}
+              </span>
+            )}
+          </div>
+          {(file.status === 'transferring' || file.status === 'paused') && (
+            <>
+              <ProgressBar
+                progress={file.progress}
+                status="Transfer Progress"
+                color="bg-blue-500"
+                detail={transferDetail(file)}
+              />
+              {file.encryptionProgress !== undefined && (
+                <ProgressBar
+                  progress={file.encryptionProgress}
+                  status="Encryption Progress"
+                  color="bg-purple-500"
+                />
+              )}
+            </>
+          )}
+          {file.throughputHistory && (
+            <div className="mt-2">
+              <Sparkline samples={file.throughputHistory} />
+            </div>
+          )}
+          {file.status === 'verifying' && (
+            <p className="text-xs text-blue-600 mt-2">Verifying SHA-256 integrity...</p>
+          )}
+          {file.status === 'declined' && (
+            <p className="text-xs text-gray-500 mt-2">Declined by the peer</p>
+          )}
+          {file.status === 'cancelled' && (
+            <p className="text-xs text-gray-500 mt-2">Cancelled</p>
+          )}
+        </div>
+        {renderControls(file)}
+        {file.swarm === 'available' && onShare && (
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={() => onShare(file.id)}
+            className="flex items-center space-x-1 px-2 py-1 text-xs text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+            title="Let every connected peer download this file from you"
+          >
+            <Share2 className="w-4 h-4" />
+            <span>Share</span>
+          </motion.button>
+        )}
+        <motion.div whileHover={{ scale: 1.1 }}>
+          {getStatusIcon(file.status)}
+        </motion.div>
+      </div>
+    </motion.div>
+  );
+
+  const renderGroup = (group: TransferGroup) => {
+    const isBroadcast = group.kind === 'broadcast';
+    const groupFiles = files.filter(file =>
+      isBroadcast ? file.broadcastId === group.id : file.groupId === group.id
+    );
+    // Broadcasts start expanded so every recipient is visible
+    const expanded = expandedGroups.has(group.id) !== isBroadcast;
+    // Weight each file by its size so one large file is not drowned out
+    const transferred = groupFiles.reduce(
+      (total, file) => total + (file.status === 'completed' ? file.size : (file.size * file.progress) / 100),
+      0
+    );
+    const totalSize = isBroadcast ? group.size * group.fileCount : group.size;
+    const progress = totalSize > 0 ? (transferred / totalSize) * 100 : 0;
+
+    return (
+      <motion.div
+        key={group.id}
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: -20 }}
+        className="bg-white/50 backdrop-blur-sm border border-gray-100 p-4 rounded-lg shadow-sm hover:shadow-md transition-all"
+      >
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => toggleGroup(group.id)}
+            className="flex-shrink-0 flex items-center text-gray-400 hover:text-gray-600"
+            title={expanded ? 'Hide files' : 'Show files'}
+          >
+            {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+            {isBroadcast
+              ? <Users className="w-8 h-8 text-indigo-500" />
+              : <Folder className="w-8 h-8 text-indigo-500" />}
+          </button>
+          <div className="flex-1 min-w-0">
+            <h3 className="font-medium text-gray-900 truncate">{group.name}</h3>
+            <div className="flex items-center gap-2">
+              <p className="text-sm text-gray-500">
+                {isBroadcast
+                  ? `${groupFiles.filter(file => file.status === 'completed').length} of ${group.fileCount} peers`
+                  : `${group.fileCount} ${group.fileCount === 1 ? 'file' : 'files'}`}
+                {' · '}
+                {formatSize(group.size)}
+              </p>
+              {groupFiles.some(file => file.peerVerified === false) && unverifiedBadge}
+            </div>
+            {group.status === 'declined' && (
+              <p className="text-xs text-gray-500 mt-2">Declined by the peer</p>
+            )}
+            {group.status === 'cancelled' && (
+              <p className="text-xs text-gray-500 mt-2">Cancelled</p>
+            )}
+            {group.status === 'transferring' && (
+              <ProgressBar
+                progress={progress}
+                status="Transfer Progress"
+                color="bg-indigo-500"
+              />
+            )}
+            {group.status === 'completed' && group.direction === 'receive' && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {canSaveFolder && (
+                  <motion.button
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    onClick={() => onSaveGroupAsFolder?.(group.id)}
+                    className="flex items-center space-x-1 px-3 py-1 text-sm bg-indigo-50 text-indigo-700 rounded-lg hover:bg-indigo-100 transition-colors"
+                  >
+                    <FolderDown className="w-4 h-4" />
+                    <span>Save as folder</span>
+                  </motion.button>
                 )}
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => onSaveGroupAsZip?.(group.id)}
+                  className="flex items-center space-x-1 px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>Save as zip</span>
+                </motion.button>
               </div>
-              <motion.div whileHover={{ scale: 1.1 }}>
-                {getStatusIcon(file.status)}
-              </motion.div>
-            </div>
+            )}
+          </div>
+          {(group.status === 'queued' || group.status === 'pending') && group.direction === 'send' && (
+            <motion.button
+              whileHover={{ scale: 1.1 }}
+              whileTap={{ scale: 0.9 }}
+              onClick={() => onCancel?.(group.id)}
+              className="p-1 text-red-500 hover:text-red-600 transition-colors"
+              title="Cancel"
+            >
+              <X className="w-4 h-4" />
+            </motion.button>
+          )}
+          <motion.div whileHover={{ scale: 1.1 }}>
+            {getStatusIcon(group.status)}
           </motion.div>
-        ))}
-      </AnimatePresence>
+        </div>
+        {expanded && (
+          <div className="mt-4 pl-4 space-y-2">
+            {groupFiles.map(renderFile)}
+          </div>
+        )}
+      </motion.div>
+    );
+  };
+
+  const renderItem = (item: ListItem) =>
+    item.kind === 'group' ? renderGroup(item.group) : renderFile(item.file);
+
+  const queuePeer = (item: ListItem) =>
+    (item.kind === 'group' ? item.group.peerId : item.file.peerId) ?? '';
+
+  // Queued rows can be dragged onto each other to change their start order,
+  // within the queue of the peer they are going to
+  const renderQueuedItem = (item: ListItem) => (
+    <div
+      key={item.id}
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', item.id);
+        setDraggedId(item.id);
+      }}
+      onDragEnd={() => setDraggedId(null)}
+      onDragOver={(e) => {
+        if (draggedId && queuePeer(item) === draggedPeer) e.preventDefault();
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (draggedId && queuePeer(item) === draggedPeer) onMoveQueued?.(draggedId, item.id);
+        setDraggedId(null);
+      }}
+      className={`flex items-center gap-2 cursor-move ${draggedId === item.id ? 'opacity-50' : ''}`}
+    >
+      <GripVertical className="w-4 h-4 text-gray-400 flex-shrink-0" />
+      <div className="flex-1 min-w-0">{renderItem(item)}</div>
+    </div>
+  );
+
+  const items: ListItem[] = [
+    ...groups.map(group => ({ kind: 'group' as const, id: group.id, status: group.status, group })),
+    ...files
+      .filter(file => !file.groupId && !file.broadcastId)
+      .map(file => ({ kind: 'file' as const, id: file.id, status: file.status, file }))
+  ];
+  const active = items.filter(item => ACTIVE_STATUSES.includes(item.status));
+  const queued = items
+    .filter(item => item.status === 'queued')
+    .sort((a, b) => queue.indexOf(a.id) - queue.indexOf(b.id));
+  const finished = items.filter(item => item.status !== 'queued' && !ACTIVE_STATUSES.includes(item.status));
+
+  // Each peer has a queue of its own
+  const queuedByPeer = new Map<string, ListItem[]>();
+  queued.forEach(item => {
+    const peerId = queuePeer(item);
+    queuedByPeer.set(peerId, [...(queuedByPeer.get(peerId) ?? []), item]);
+  });
+  const draggedItem = queued.find(item => item.id === draggedId);
+  const draggedPeer = draggedItem ? queuePeer(draggedItem) : null;
+
+  const sectionTitle = (title: string, count: number) => (
+    <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide">
+      {title} ({count})
+    </h3>
+  );
+
+  return (
+    <div className="space-y-4">
+      {active.length > 0 && (
+        <div className="space-y-4">
+          {sectionTitle('Active', active.length)}
+          <AnimatePresence>{active.map(renderItem)}</AnimatePresence>
+        </div>
+      )}
+      {queued.length > 0 && (
+        <div className="space-y-4">
+          {sectionTitle('Queued', queued.length)}
+          {Array.from(queuedByPeer, ([peerId, peerItems]) => (
+            <div key={peerId} className="space-y-4">
+              {queuedByPeer.size > 1 && (
+                <p className="text-xs text-gray-500 truncate">To {peerId}</p>
+              )}
+              <AnimatePresence>{peerItems.map(renderQueuedItem)}</AnimatePresence>
+              {draggedId && draggedPeer === peerId && (
+                <div
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    onMoveQueued?.(draggedId, null);
+                    setDraggedId(null);
+                  }}
+                  className="border-2 border-dashed border-gray-300 rounded-lg p-2 text-center text-xs text-gray-500"
+                >
+                  Drop here to move to the end
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      {finished.length > 0 && (
+        <div className="space-y-4">
+          {(active.length > 0 || queued.length > 0) && sectionTitle('Finished', finished.length)}
+          <AnimatePresence>{finished.map(renderItem)}</AnimatePresence>
+        </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { FileDown, ShieldAlert } from 'lucide-react';
+import { FileOffer } from '../types';
+
+interface FileOfferPromptProps {
+  offer: FileOffer;
+  onAccept: (alwaysAccept: boolean) => void;
+  onDecline: () => void;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(2) + ' KB';
+  if (bytes < 1024 * 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(2) + ' MB';
+  return (bytes / (1024 * 1024 * 1024)).toFixed(2) + ' GB';
+};
+
+export const FileOfferPrompt: React.FC<FileOfferPromptProps> = ({
+  offer,
+  onAccept,
+  onDecline,
+}) => {
+  const [alwaysAccept, setAlwaysAccept] = useState(false);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="fixed top-4 right-4 z-50 w-full max-w-sm mx-auto px-4 sm:px-0"
+    >
+      <div className="bg-white rounded-lg shadow-xl p-4 border border-gray-100">
+        <div className="flex items-start space-x-4">
+          <div className="bg-green-100 rounded-full p-2 flex-shrink-0">
+            <FileDown className="w-6 h-6 text-green-600" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <h3 className="font-medium text-gray-900">Incoming {offer.fileCount > 1 ? 'Files' : 'File'}</h3>
+            <p className="text-sm text-gray-500 mt-1">A peer wants to send you:</p>
+            <div className="bg-gray-50 p-2 rounded mt-2">
+              <p className="text-sm font-medium text-gray-900 break-all">{offer.name}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {offer.fileCount > 1 ? `${offer.fileCount} files` : offer.type || 'Unknown type'}
+                {' · '}
+                {formatSize(offer.size)}
+              </p>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">From</p>
+            <p className="text-sm font-mono select-all break-all">{offer.peerId}</p>
+            {!offer.peerVerified && (
+              <p className="flex items-center space-x-1 text-xs text-orange-700 mt-2">
+                <ShieldAlert className="w-3 h-3" />
+                <span>This peer's safety code has not been verified</span>
+              </p>
+            )}
+            <label className="flex items-center space-x-2 text-sm text-gray-700 mt-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={alwaysAccept}
+                onChange={(e) => setAlwaysAccept(e.target.checked)}
+                className="rounded border-gray-300 text-green-500 focus:ring-green-500"
+              />
+              <span>Always accept files from this peer</span>
+            </label>
+            <div className="flex space-x-2 mt-4">
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={() => onAccept(alwaysAccept)}
+                className="flex-1 px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors font-medium"
+              >
+                Accept
+              </motion.button>
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={onDecline}
+                className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+              >
+                Decline
+              </motion.button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { History, X, Search, ArrowUpRight, ArrowDownLeft, Download, Trash2 } from 'lucide-react';
+import { TransferRecord } from '../types';
+import { historyToCsv, historyToJson } from '../utils/historyExport';
+
+interface HistoryPanelProps {
+  records: TransferRecord[];
+  onClear: () => void;
+  onClose: () => void;
+}
+
+type DirectionFilter = 'all' | TransferRecord['direction'];
+type OutcomeFilter = 'all' | TransferRecord['outcome'];
+type ModeFilter = 'all' | NonNullable<TransferRecord['mode']>;
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(2) + ' KB';
+  if (bytes < 1024 * 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(2) + ' MB';
+  return (bytes / (1024 * 1024 * 1024)).toFixed(2) + ' GB';
+};
+
+const outcomeStyles: Record<TransferRecord['outcome'], string> = {
+  completed: 'bg-green-100 text-green-700',
+  declined: 'bg-gray-100 text-gray-600',
+  cancelled: 'bg-amber-100 text-amber-700',
+  error: 'bg-red-100 text-red-700'
+};
+
+const download = (content: string, type: string, extension: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `sharencrypt-history-${new Date().toISOString().slice(0, 10)}.${extension}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const selectClassName = 'px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ records, onClear, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [direction, setDirection] = useState<DirectionFilter>('all');
+  const [outcome, setOutcome] = useState<OutcomeFilter>('all');
+  const [mode, setMode] = useState<ModeFilter>('all');
+
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return records.filter(record => {
+      if (direction !== 'all' && record.direction !== direction) return false;
+      if (outcome !== 'all' && record.outcome !== outcome) return false;
+      if (mode !== 'all' && record.mode !== mode) return false;
+      if (!needle) return true;
+      return [record.name, record.peerId, record.hash]
+        .some(value => value?.toLowerCase().includes(needle));
+    });
+  }, [records, query, direction, outcome, mode]);
+
+  const handleClear = () => {
+    if (window.confirm('Clear the whole transfer history?')) {
+      onClear();
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.95, y: 20 }}
+        className="bg-white rounded-xl shadow-xl max-w-3xl w-full mx-auto overflow-hidden flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 bg-gradient-to-r from-blue-500 to-indigo-500 flex items-center justify-between">
+          <div className="flex items-center space-x-2 text-white">
+            <History className="w-6 h-6" />
+            <h3 className="text-xl font-semibold">Transfer History</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-white hover:bg-white/20 rounded-full p-2 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-gray-100 space-y-3">
+          <div className="relative">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="w-full pl-9 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              placeholder="Search by file name, peer ID or hash"
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select value={direction} onChange={(e) => setDirection(e.target.value as DirectionFilter)} className={selectClassName}>
+              <option value="all">Sent and received</option>
+              <option value="send">Sent</option>
+              <option value="receive">Received</option>
+            </select>
+            <select value={outcome} onChange={(e) => setOutcome(e.target.value as OutcomeFilter)} className={selectClassName}>
+              <option value="all">Any outcome</option>
+              <option value="completed">Completed</option>
+              <option value="declined">Declined</option>
+              <option value="cancelled">Cancelled</option>
+              <option value="error">Failed</option>
+            </select>
+            <select value={mode} onChange={(e) => setMode(e.target.value as ModeFilter)} className={selectClassName}>
+              <option value="all">Any route</option>
+              <option value="direct">Direct</option>
+              <option value="relay">Relay</option>
+              <option value="mixed">Mixed</option>
+            </select>
+            <div className="flex gap-2 sm:ml-auto">
+              <button
+                onClick={() => download(historyToJson(filtered), 'application/json', 'json')}
+                disabled={filtered.length === 0}
+                className="flex items-center space-x-1 px-3 py-1.5 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <Download className="w-4 h-4" />
+                <span>JSON</span>
+              </button>
+              <button
+                onClick={() => download(historyToCsv(filtered), 'text/csv', 'csv')}
+                disabled={filtered.length === 0}
+                className="flex items-center space-x-1 px-3 py-1.5 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <Download className="w-4 h-4" />
+                <span>CSV</span>
+              </button>
+              <button
+                onClick={handleClear}
+                disabled={records.length === 0}
+                className="flex items-center space-x-1 px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <Trash2 className="w-4 h-4" />
+                <span>Clear</span>
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {filtered.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">
+              {records.length === 0 ? 'No transfers yet' : 'No transfers match these filters'}
+            </p>
+          ) : filtered.map(record => (
+            <div
+              key={record.id}
+              className="flex items-center space-x-3 bg-white/50 border border-gray-100 p-3 rounded-lg"
+            >
+              {record.direction === 'send'
+                ? <ArrowUpRight className="w-5 h-5 text-blue-500 flex-shrink-0" />
+                : <ArrowDownLeft className="w-5 h-5 text-green-500 flex-shrink-0" />}
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900 truncate">{record.name}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {formatSize(record.size)}
+                  {' · '}
+                  {new Date(record.finishedAt).toLocaleString()}
+                  {' · '}
+                  {record.peerId ? (record.direction === 'send' ? `to ${record.peerId}` : `from ${record.peerId}`) : 'from several peers'}
+                  {record.mode && ` · ${record.mode}`}
+                </p>
+                {record.hash && (
+                  <p className="text-xs font-mono text-gray-400 truncate select-all" title={record.hash}>
+                    {record.hash}
+                  </p>
+                )}
+                {record.error && (
+                  <p className="text-xs text-red-500 truncate">{record.error}</p>
+                )}
+              </div>
+              <span className={`px-2 py-0.5 text-xs rounded-full flex-shrink-0 ${outcomeStyles[record.outcome]}`}>
+                {record.outcome === 'error' ? 'failed' : record.outcome}
+              </span>
+            </div>
+          ))}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link2, Check, RefreshCw, Loader2 } from 'lucide-react';
+import { PairingCode } from '../types';
+import { createConnectLink, formatPairingCode } from '../utils/pairing';
+
+interface PairingCodePanelProps {
+  onCreate: () => Promise<PairingCode>;
+}
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const PairingCodePanel: React.FC<PairingCodePanelProps> = ({ onCreate }) => {
+  const [pairing, setPairing] = useState<PairingCode | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const requestCode = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setPairing(await onCreate());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not get a pairing code');
+    } finally {
+      setLoading(false);
+    }
+  }, [onCreate]);
+
+  useEffect(() => {
+    requestCode();
+  }, [requestCode]);
+
+  // Counts down to expiry
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const expired = pairing !== null && pairing.expiresAt <= now;
+
+  const copyLink = async () => {
+    if (!pairing) return;
+    try {
+      await navigator.clipboard.writeText(createConnectLink(pairing.code));
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy link:', err);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center text-center">
+      {loading && <Loader2 className="w-8 h-8 text-blue-500 animate-spin my-4" />}
+
+      {!loading && error && (
+        <p className="text-sm text-red-500 my-2">{error}</p>
+      )}
+
+      {!loading && pairing && !error && (
+        <>
+          <p className={`font-mono text-3xl font-bold tracking-widest ${expired ? 'text-gray-300 line-through' : 'text-gray-900'}`}>
+            {formatPairingCode(pairing.code)}
+          </p>
+          <p className="text-xs text-gray-500 mt-1">
+            {expired ? 'This code has expired' : `Expires in ${formatRemaining(pairing.expiresAt - now)}`}
+          </p>
+        </>
+      )}
+
+      <div className="flex flex-wrap justify-center gap-2 mt-3">
+        {pairing && !expired && !loading && !error && (
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={copyLink}
+            className="flex items-center space-x-2 px-3 py-1.5 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+          >
+            {copied ? <Check className="w-4 h-4" /> : <Link2 className="w-4 h-4" />}
+            <span>{copied ? 'Copied' : 'Copy link'}</span>
+          </motion.button>
+        )}
+        {!loading && (
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={requestCode}
+            className="flex items-center space-x-2 px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <RefreshCw className="w-4 h-4" />
+            <span>New code</span>
+          </motion.button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -5,12 +5,15 @@ interface ProgressBarProps {
   progress: number;
   status: string;
   color?: string;
+  // e.g. bytes, speed and time left, shown under the bar
+  detail?: string;
 }
 
 export const ProgressBar: React.FC<ProgressBarProps> = ({ 
   progress, 
   status,
-  color = 'bg-blue-500'
+  color = 'bg-blue-500',
+  detail
 }) => {
   return (
     <div className="mt-2">
@@ -26,6 +29,9 @@ export const ProgressBar: React.FC<ProgressBarProps> = ({
         <p className="text-xs text-gray-500">{status}</p>
         <p className="text-xs font-medium">{progress.toFixed(1)}%</p>
       </div>
+      {detail && (
+        <p className="text-xs text-gray-500 mt-0.5 tabular-nums">{detail}</p>
+      )}
     </div>
   );
 };
\ No newline at end of file
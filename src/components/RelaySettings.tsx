@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Server, X, RefreshCw, RotateCcw, Save } from 'lucide-react';
+import { RelayHealth, RelaySource } from '../types';
+import { RelayConfig, parseRelayList } from '../services/relayConfig';
+import { DEFAULT_LIVENESS_THRESHOLDS, LIVENESS_CHECK_INTERVAL, LivenessThresholds } from '../services/livenessMonitor';
+
+interface RelaySettingsProps {
+  health: RelayHealth;
+  config: RelayConfig;
+  onSave: (urls: string[]) => void;
+  onReconnect: () => void;
+  liveness: LivenessThresholds;
+  onLivenessChange: (thresholds: Partial<LivenessThresholds>) => void;
+  onClose: () => void;
+}
+
+const sourceLabels: Record<RelaySource, string> = {
+  query: 'the ?relay= link parameter',
+  settings: 'these settings',
+  env: 'the build configuration',
+  default: 'the public default'
+};
+
+const livenessFields: { key: keyof LivenessThresholds; label: string }[] = [
+  { key: 'degradedAfter', label: 'Slow after' },
+  { key: 'lostAfter', label: 'Unreachable after' },
+  { key: 'removeAfter', label: 'Removed after' }
+];
+
+const toSeconds = (thresholds: LivenessThresholds) => ({
+  degradedAfter: String(thresholds.degradedAfter / 1000),
+  lostAfter: String(thresholds.lostAfter / 1000),
+  removeAfter: String(thresholds.removeAfter / 1000)
+});
+
+const stateStyles: Record<RelayHealth['state'], string> = {
+  online: 'bg-green-100 text-green-700',
+  connecting: 'bg-amber-100 text-amber-700',
+  offline: 'bg-red-100 text-red-700'
+};
+
+export const RelaySettings: React.FC<RelaySettingsProps> = ({
+  health,
+  config,
+  onSave,
+  onReconnect,
+  liveness,
+  onLivenessChange,
+  onClose,
+}) => {
+  const [text, setText] = useState(config.urls.join('\n'));
+  const [error, setError] = useState<string | null>(null);
+  const [timeouts, setTimeouts] = useState(() => toSeconds(liveness));
+
+  // Show the values as the service adjusted them
+  useEffect(() => {
+    setTimeouts(toSeconds(liveness));
+  }, [liveness]);
+
+  const applyTimeout = (key: keyof LivenessThresholds) => {
+    const seconds = Number(timeouts[key]);
+    if (!Number.isFinite(seconds) || seconds <= 0) {
+      setTimeouts(toSeconds(liveness));
+      return;
+    }
+    onLivenessChange({ [key]: seconds * 1000 });
+  };
+
+  const handleSave = () => {
+    const urls = parseRelayList(text);
+    if (urls.length === 0) {
+      setError('Enter at least one ws:// or wss:// URL');
+      return;
+    }
+    onSave(urls);
+    onClose();
+  };
+
+  const handleReset = () => {
+    onSave([]);
+    onClose();
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.95, y: 20 }}
+        className="bg-white rounded-xl shadow-xl max-w-lg w-full mx-auto overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 bg-gradient-to-r from-blue-500 to-indigo-500 flex items-center justify-between">
+          <div className="flex items-center space-x-2 text-white">
+            <Server className="w-6 h-6" />
+            <h3 className="text-xl font-semibold">Relay Server</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-white hover:bg-white/20 rounded-full p-2 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="bg-gray-50 p-3 rounded-lg space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-mono text-gray-800 truncate" title={health.url}>{health.url}</p>
+              <span className={`px-2 py-0.5 text-xs rounded-full flex-shrink-0 ${stateStyles[health.state]}`}>
+                {health.state}
+                {health.state === 'online' && health.latency !== undefined && ` · ${health.latency} ms`}
+              </span>
+            </div>
+            <p className="text-xs text-gray-500">
+              From {sourceLabels[config.source]}
+              {health.fallback && ' · using a fallback relay'}
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Relay URLs, one per line, tried in order
+            </label>
+            <textarea
+              value={text}
+              onChange={(e) => {
+                setText(e.target.value);
+                setError(null);
+              }}
+              rows={4}
+              spellCheck={false}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              placeholder="wss://relay.example.com/ws"
+            />
+            {error && <p className="text-sm text-red-500 mt-1">{error}</p>}
+            {config.source === 'query' && (
+              <p className="text-xs text-amber-600 mt-1">
+                This page was opened with ?relay=, which takes priority over saved settings each time it loads.
+              </p>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-gray-700">
+                Seconds without an answer before a peer is
+              </label>
+              <button
+                onClick={() => onLivenessChange(DEFAULT_LIVENESS_THRESHOLDS)}
+                className="text-xs text-blue-600 hover:underline"
+              >
+                Defaults
+              </button>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {livenessFields.map(({ key, label }) => (
+                <label key={key} className="text-xs text-gray-500">
+                  {label}
+                  <input
+                    type="number"
+                    min={1}
+                    value={timeouts[key]}
+                    onChange={(e) => setTimeouts(prev => ({ ...prev, [key]: e.target.value }))}
+                    onBlur={() => applyTimeout(key)}
+                    onKeyDown={(e) => e.key === 'Enter' && applyTimeout(key)}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-800 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  />
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Each stage is at least {LIVENESS_CHECK_INTERVAL / 1000} seconds after the one before it. Saved right away.
+            </p>
+          </div>
+
+          <div className="flex flex-wrap justify-end gap-2">
+            <button
+              onClick={onReconnect}
+              className="flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <RefreshCw className="w-4 h-4" />
+              <span>Reconnect</span>
+            </button>
+            <button
+              onClick={handleReset}
+              className="flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <RotateCcw className="w-4 h-4" />
+              <span>Reset to default</span>
+            </button>
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={handleSave}
+              className="flex items-center space-x-1 px-4 py-1.5 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+            >
+              <Save className="w-4 h-4" />
+              <span>Save &amp; reconnect</span>
+            </motion.button>
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
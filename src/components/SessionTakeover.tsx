@@ -0,0 +1,40 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { MonitorSmartphone } from 'lucide-react';
+
+interface SessionTakeoverProps {
+  onReclaim: () => void;
+}
+
+// Shown when this device's peer id was registered from another tab or window
+export const SessionTakeover: React.FC<SessionTakeoverProps> = ({ onReclaim }) => (
+  <motion.div
+    initial={{ opacity: 0 }}
+    animate={{ opacity: 1 }}
+    exit={{ opacity: 0 }}
+    className="fixed inset-0 bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-50 flex items-center justify-center z-50 p-4"
+  >
+    <motion.div
+      initial={{ scale: 0.95, y: 20 }}
+      animate={{ scale: 1, y: 0 }}
+      className="bg-white rounded-xl shadow-xl max-w-md w-full p-6 flex flex-col items-center text-center"
+    >
+      <div className="w-14 h-14 rounded-full bg-blue-100 flex items-center justify-center mb-4">
+        <MonitorSmartphone className="w-8 h-8 text-blue-600" />
+      </div>
+      <h2 className="text-xl font-semibold text-gray-900 mb-2">Open in another window</h2>
+      <p className="text-gray-500 mb-6">
+        Sharencrypt was opened in another tab or window with this device's identity, so this one
+        was signed out and its connections were closed.
+      </p>
+      <motion.button
+        whileHover={{ scale: 1.02 }}
+        whileTap={{ scale: 0.98 }}
+        onClick={onReclaim}
+        className="px-4 py-2 bg-gradient-to-r from-blue-500 to-indigo-500 text-white rounded-lg hover:from-blue-600 hover:to-indigo-600 transition-all shadow-md font-medium"
+      >
+        Use here instead
+      </motion.button>
+    </motion.div>
+  </motion.div>
+);
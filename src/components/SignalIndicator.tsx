@@ -0,0 +1,42 @@
+import React from 'react';
+import { SignalHigh, SignalMedium, SignalLow, SignalZero } from 'lucide-react';
+import { PeerHealth } from '../types';
+
+interface SignalIndicatorProps {
+  health?: PeerHealth;
+  rtt?: number;
+}
+
+// RTT below these (ms) counts as a strong or fair link while the peer is healthy
+const STRONG_RTT = 150;
+const FAIR_RTT = 500;
+
+export const SignalIndicator: React.FC<SignalIndicatorProps> = ({ health = 'good', rtt }) => {
+  let Icon = SignalHigh;
+  let color = 'text-green-500';
+  let label = 'Responsive';
+
+  if (health === 'lost') {
+    Icon = SignalZero;
+    color = 'text-red-500';
+    label = 'Not responding';
+  } else if (health === 'degraded') {
+    Icon = SignalLow;
+    color = 'text-orange-500';
+    label = 'Slow to respond';
+  } else if (rtt !== undefined && rtt >= FAIR_RTT) {
+    Icon = SignalLow;
+    color = 'text-yellow-500';
+  } else if (rtt !== undefined && rtt >= STRONG_RTT) {
+    Icon = SignalMedium;
+    color = 'text-yellow-500';
+  }
+
+  const title = rtt !== undefined && health !== 'lost' ? `${label} · ${Math.round(rtt)} ms` : label;
+
+  return (
+    <span title={title} className={`flex items-center ${color}`}>
+      <Icon className="w-5 h-5" />
+    </span>
+  );
+};
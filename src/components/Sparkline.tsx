@@ -0,0 +1,49 @@
+import React from 'react';
+import { ThroughputSample } from '../types';
+
+interface SparklineProps {
+  samples: ThroughputSample[];
+  width?: number;
+  height?: number;
+}
+
+const MODE_COLORS: Record<ThroughputSample['mode'], string> = {
+  direct: '#22c55e',
+  relay: '#f59e0b'
+};
+
+// One bar per speed sample: green while direct, amber through the relay
+export const Sparkline: React.FC<SparklineProps> = ({ samples, width = 120, height = 24 }) => {
+  if (samples.length < 2) return null;
+
+  const peak = Math.max(...samples.map(sample => sample.bytesPerSecond), 1);
+  const barWidth = width / samples.length;
+  const relayShare = samples.filter(sample => sample.mode === 'relay').length / samples.length;
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      className="flex-shrink-0"
+      role="img"
+      aria-label={`Transfer speed, ${Math.round(relayShare * 100)}% via relay`}
+    >
+      <title>
+        {relayShare === 0 ? 'Direct' : relayShare === 1 ? 'Via relay' : `${Math.round(relayShare * 100)}% via relay`}
+      </title>
+      {samples.map((sample, index) => {
+        const barHeight = Math.max(1, (sample.bytesPerSecond / peak) * height);
+        return (
+          <rect
+            key={index}
+            x={index * barWidth}
+            y={height - barHeight}
+            width={Math.max(1, barWidth - 1)}
+            height={barHeight}
+            fill={MODE_COLORS[sample.mode]}
+          />
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Download, Network } from 'lucide-react';
+import { SwarmFile } from '../types';
+
+interface SwarmFileListProps {
+  files: SwarmFile[];
+  onDownload: (contentHash: string) => void;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(2) + ' KB';
+  if (bytes < 1024 * 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(2) + ' MB';
+  return (bytes / (1024 * 1024 * 1024)).toFixed(2) + ' GB';
+};
+
+export const SwarmFileList: React.FC<SwarmFileListProps> = ({ files, onDownload }) => {
+  if (files.length === 0) return null;
+
+  return (
+    <div className="mb-4">
+      <h3 className="text-sm font-medium text-gray-700 mb-2">Available from peers</h3>
+      <div className="space-y-2">
+        <AnimatePresence>
+          {files.map(file => (
+            <motion.div
+              key={file.contentHash}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              className="flex items-center space-x-3 bg-white/50 backdrop-blur-sm border border-gray-100 p-3 rounded-lg shadow-sm"
+            >
+              <Network className="w-6 h-6 text-blue-500 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900 truncate">{file.name}</p>
+                <p className="text-xs text-gray-500">
+                  {formatSize(file.size)}
+                  {' · '}
+                  {file.peerIds.length === 1 ? 'Held by 1 peer' : `Held by ${file.peerIds.length} peers`}
+                </p>
+              </div>
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => onDownload(file.contentHash)}
+                className="flex items-center space-x-1 px-3 py-1.5 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 transition-colors"
+                title={`Fetch from ${file.peerIds.join(', ')}`}
+              >
+                <Download className="w-4 h-4" />
+                <span>Download</span>
+              </motion.button>
+            </motion.div>
+          ))}
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+};
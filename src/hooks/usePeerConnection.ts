@@ -1,23 +1,64 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { peerService } from '../services/peerService';
-import { FileTransfer, PeerConnection } from '../types';
+import {
+  Contact,
+  FileOffer,
+  FileTransfer,
+  PeerConnection,
+  PeerHealth,
+  PendingConnection,
+  RelayHealth,
+  SwarmFile,
+  TransferGroup
+} from '../types';
+import { LivenessThresholds } from '../services/livenessMonitor';
+import { SelectedFile } from '../utils/fileEntries';
 
 export const usePeerConnection = () => {
   const [peerId, setPeerId] = useState<string>('');
+  const [relayConnected, setRelayConnected] = useState(peerService.isRelayConnected());
+  const [relayHealth, setRelayHealth] = useState<RelayHealth>(peerService.getRelayHealth());
+  const [relayConfig, setRelayConfig] = useState(peerService.getRelayConfig());
+  const [contacts, setContacts] = useState<Contact[]>(peerService.getContacts());
+  const [sessionTakenOver, setSessionTakenOver] = useState(peerService.isSessionTakenOver());
   const [connections, setConnections] = useState<PeerConnection[]>([]);
   const [files, setFiles] = useState<FileTransfer[]>([]);
-  const [pendingConnections, setPendingConnections] = useState<string[]>([]);
+  const [groups, setGroups] = useState<TransferGroup[]>([]);
+  const [pendingConnections, setPendingConnections] = useState<PendingConnection[]>([]);
+  const [fileOffers, setFileOffers] = useState<FileOffer[]>([]);
+  const [swarmFiles, setSwarmFiles] = useState<SwarmFile[]>([]);
+  // Queued transfer ids per peer, in the order they will start
+  const [queues, setQueues] = useState<Record<string, string[]>>({});
+  const [maxConcurrentTransfers, setMaxConcurrentTransfersState] = useState(
+    peerService.getMaxConcurrentTransfers()
+  );
+  const [livenessThresholds, setLivenessThresholdsState] = useState(peerService.getLivenessThresholds());
   const [connectionStatus, setConnectionStatus] = useState<'idle' | 'connecting' | 'connected' | 'failed'>('idle');
 
   useEffect(() => {
-    // Set peer ID
+    // Set peer ID; empty until the device identity has loaded
     setPeerId(peerService.getPeerId());
     
     // Set up event listeners
-    const handleConnection = (data: { peerId: string }) => {
+    const handleConnection = (data: {
+      peerId: string;
+      safetyCode: string;
+      verified: boolean;
+      fingerprint: string;
+      autoAccept: boolean;
+    }) => {
       setConnections(prev => {
         if (!prev.find(c => c.id === data.peerId)) {
-          return [...prev, { id: data.peerId, connected: true }];
+          return [...prev, {
+            id: data.peerId,
+            connected: true,
+            mode: 'relay',
+            safetyCode: data.safetyCode,
+            verified: data.verified,
+            fingerprint: data.fingerprint,
+            autoAccept: data.autoAccept,
+            health: 'good'
+          }];
         }
         return prev;
       });
@@ -26,10 +67,54 @@ export const usePeerConnection = () => {
     
     const handleDisconnection = (data: { peerId: string }) => {
       setConnections(prev => prev.filter(conn => conn.id !== data.peerId));
+      setFileOffers(prev => prev.filter(offer => offer.peerId !== data.peerId));
     };
     
-    const handleConnectionRequest = (data: { peerId: string }) => {
-      setPendingConnections(prev => [...prev, data.peerId]);
+    const handleConnectionModeChange = (data: { peerId: string; mode: PeerConnection['mode'] }) => {
+      setConnections(prev => prev.map(conn =>
+        conn.id === data.peerId
+          ? { ...conn, mode: data.mode }
+          : conn
+      ));
+    };
+    
+    const handlePeerVerificationChange = (data: { peerId: string; verified: boolean }) => {
+      setConnections(prev => prev.map(conn =>
+        conn.id === data.peerId
+          ? { ...conn, verified: data.verified }
+          : conn
+      ));
+    };
+    
+    const handlePeerHealthChange = (data: { peerId: string; health: PeerHealth; rtt?: number }) => {
+      setConnections(prev => prev.map(conn =>
+        conn.id === data.peerId
+          ? { ...conn, health: data.health, rtt: data.rtt }
+          : conn
+      ));
+    };
+    
+    const handleAutoAcceptChange = (data: { peerId: string; autoAccept: boolean }) => {
+      setConnections(prev => prev.map(conn =>
+        conn.id === data.peerId
+          ? { ...conn, autoAccept: data.autoAccept }
+          : conn
+      ));
+    };
+    
+    const handleFileOffer = (data: FileOffer) => {
+      setFileOffers(prev => [...prev, data]);
+    };
+    
+    const handleFileOfferWithdrawn = (data: { id: string }) => {
+      setFileOffers(prev => prev.filter(offer => offer.id !== data.id));
+    };
+    
+    const handleConnectionRequest = (data: PendingConnection) => {
+      setPendingConnections(prev => [
+        ...prev.filter(pending => pending.peerId !== data.peerId),
+        data
+      ]);
     };
     
     const handleFileTransferStart = (data: FileTransfer) => {
@@ -60,24 +145,84 @@ export const usePeerConnection = () => {
       ));
     };
     
+    const handleTransferQueueChange = (data: { peerId: string; queued: string[] }) => {
+      setQueues(prev => ({ ...prev, [data.peerId]: data.queued }));
+    };
+    
+    const handleSwarmFilesChange = (data: SwarmFile[]) => {
+      setSwarmFiles(data);
+    };
+    
+    const handleTransferGroupStart = (data: TransferGroup) => {
+      setGroups(prev => [...prev, data]);
+    };
+    
+    const handleTransferGroupProgress = (data: Partial<TransferGroup>) => {
+      setGroups(prev => prev.map(group => 
+        group.id === data.id 
+          ? { ...group, ...data } 
+          : group
+      ));
+    };
+    
+    const handleTransferGroupComplete = (data: Partial<TransferGroup>) => {
+      setGroups(prev => prev.map(group => 
+        group.id === data.id 
+          ? { ...group, ...data } 
+          : group
+      ));
+    };
+    
     // Register event listeners
+    peerService.on('peerIdChange', setPeerId);
+    peerService.on('relayStatusChange', setRelayConnected);
+    peerService.on('relayHealthChange', setRelayHealth);
+    peerService.on('contactsChange', setContacts);
+    peerService.on('sessionTakeover', setSessionTakenOver);
     peerService.on('connection', handleConnection);
     peerService.on('disconnection', handleDisconnection);
+    peerService.on('connectionModeChange', handleConnectionModeChange);
+    peerService.on('peerVerificationChange', handlePeerVerificationChange);
+    peerService.on('peerHealthChange', handlePeerHealthChange);
+    peerService.on('autoAcceptChange', handleAutoAcceptChange);
     peerService.on('connectionRequest', handleConnectionRequest);
+    peerService.on('fileOffer', handleFileOffer);
+    peerService.on('fileOfferWithdrawn', handleFileOfferWithdrawn);
     peerService.on('fileTransferStart', handleFileTransferStart);
     peerService.on('fileTransferProgress', handleFileTransferProgress);
     peerService.on('fileTransferComplete', handleFileTransferComplete);
     peerService.on('fileTransferError', handleFileTransferError);
+    peerService.on('transferQueueChange', handleTransferQueueChange);
+    peerService.on('swarmFilesChange', handleSwarmFilesChange);
+    peerService.on('transferGroupStart', handleTransferGroupStart);
+    peerService.on('transferGroupProgress', handleTransferGroupProgress);
+    peerService.on('transferGroupComplete', handleTransferGroupComplete);
     
     // Clean up event listeners
     return () => {
+      peerService.off('peerIdChange', setPeerId);
+      peerService.off('relayStatusChange', setRelayConnected);
+      peerService.off('relayHealthChange', setRelayHealth);
+      peerService.off('contactsChange', setContacts);
+      peerService.off('sessionTakeover', setSessionTakenOver);
       peerService.off('connection', handleConnection);
       peerService.off('disconnection', handleDisconnection);
+      peerService.off('connectionModeChange', handleConnectionModeChange);
+      peerService.off('peerVerificationChange', handlePeerVerificationChange);
+      peerService.off('peerHealthChange', handlePeerHealthChange);
+      peerService.off('autoAcceptChange', handleAutoAcceptChange);
       peerService.off('connectionRequest', handleConnectionRequest);
+      peerService.off('fileOffer', handleFileOffer);
+      peerService.off('fileOfferWithdrawn', handleFileOfferWithdrawn);
       peerService.off('fileTransferStart', handleFileTransferStart);
       peerService.off('fileTransferProgress', handleFileTransferProgress);
       peerService.off('fileTransferComplete', handleFileTransferComplete);
       peerService.off('fileTransferError', handleFileTransferError);
+      peerService.off('transferQueueChange', handleTransferQueueChange);
+      peerService.off('swarmFilesChange', handleSwarmFilesChange);
+      peerService.off('transferGroupStart', handleTransferGroupStart);
+      peerService.off('transferGroupProgress', handleTransferGroupProgress);
+      peerService.off('transferGroupComplete', handleTransferGroupComplete);
     };
   }, []);
 
@@ -89,14 +234,71 @@ export const usePeerConnection = () => {
     }
   }, []);
 
-  const acceptConnection = useCallback((targetPeerId: string) => {
-    peerService.acceptConnection(targetPeerId);
-    setPendingConnections(prev => prev.filter(id => id !== targetPeerId));
+  // A pairing code or a full peer id, typed or from a link
+  const connectWithCode = useCallback(async (codeOrPeerId: string) => {
+    setConnectionStatus('connecting');
+    const success = await peerService.connectWithCode(codeOrPeerId);
+    if (!success) {
+      setConnectionStatus('failed');
+    }
+  }, []);
+
+  const createPairingCode = useCallback(() => peerService.createPairingCode(), []);
+
+  const acceptConnection = useCallback((targetPeerId: string, verified = false) => {
+    peerService.acceptConnection(targetPeerId, verified);
+    setPendingConnections(prev => prev.filter(pending => pending.peerId !== targetPeerId));
   }, []);
 
   const rejectConnection = useCallback((targetPeerId: string) => {
     peerService.rejectConnection(targetPeerId);
-    setPendingConnections(prev => prev.filter(id => id !== targetPeerId));
+    setPendingConnections(prev => prev.filter(pending => pending.peerId !== targetPeerId));
+  }, []);
+
+  const setPeerVerified = useCallback((targetPeerId: string, verified: boolean) => {
+    peerService.setPeerVerified(targetPeerId, verified);
+  }, []);
+
+  const setAutoAccept = useCallback((targetPeerId: string, autoAccept: boolean) => {
+    peerService.setAutoAccept(targetPeerId, autoAccept);
+  }, []);
+
+  const reclaimSession = useCallback(() => {
+    peerService.reclaimSession();
+  }, []);
+
+  const setRelayUrls = useCallback((urls: string[]) => {
+    peerService.setRelayUrls(urls);
+    setRelayConfig(peerService.getRelayConfig());
+  }, []);
+
+  const reconnectRelay = useCallback(() => {
+    peerService.reconnectRelay();
+  }, []);
+
+  const addContact = useCallback((targetPeerId: string, alias: string) => {
+    peerService.addContact(targetPeerId, alias);
+  }, []);
+
+  const updateContact = useCallback((
+    targetPeerId: string,
+    changes: Partial<Pick<Contact, 'alias' | 'color' | 'trusted'>>
+  ) => {
+    peerService.updateContact(targetPeerId, changes);
+  }, []);
+
+  const removeContact = useCallback((targetPeerId: string) => {
+    peerService.removeContact(targetPeerId);
+  }, []);
+
+  const acceptFileOffer = useCallback((offerId: string, alwaysAccept = false) => {
+    peerService.acceptFileOffer(offerId, alwaysAccept);
+    setFileOffers(prev => prev.filter(offer => offer.id !== offerId));
+  }, []);
+
+  const declineFileOffer = useCallback((offerId: string) => {
+    peerService.declineFileOffer(offerId);
+    setFileOffers(prev => prev.filter(offer => offer.id !== offerId));
   }, []);
 
   const disconnectPeer = useCallback((targetPeerId: string) => {
@@ -107,21 +309,108 @@ export const usePeerConnection = () => {
     await peerService.sendFile(file, targetPeerId);
   }, []);
 
-  const retryConnection = useCallback((targetPeerId: string) => {
-    connectToPeer(targetPeerId);
-  }, [connectToPeer]);
+  const broadcastFile = useCallback(async (file: File, targetPeerIds: string[]) => {
+    await peerService.broadcastFile(file, targetPeerIds);
+  }, []);
+
+  const sendFiles = useCallback(async (selected: SelectedFile[], targetPeerId: string) => {
+    await peerService.sendFiles(selected, targetPeerId);
+  }, []);
+
+  const downloadFromSwarm = useCallback(async (contentHash: string) => {
+    await peerService.downloadFromSwarm(contentHash);
+  }, []);
+
+  const shareToSwarm = useCallback(async (transferId: string) => {
+    await peerService.shareToSwarm(transferId);
+  }, []);
+
+  const cancelTransfer = useCallback((transferId: string) => {
+    peerService.cancelTransfer(transferId);
+  }, []);
+
+  const pauseTransfer = useCallback((transferId: string) => {
+    peerService.pauseTransfer(transferId);
+  }, []);
+
+  const resumeTransfer = useCallback((transferId: string) => {
+    peerService.resumeTransfer(transferId);
+  }, []);
+
+  const moveQueuedTransfer = useCallback((transferId: string, beforeId: string | null) => {
+    peerService.moveQueuedTransfer(transferId, beforeId);
+  }, []);
+
+  const setMaxConcurrentTransfers = useCallback((maxConcurrent: number) => {
+    peerService.setMaxConcurrentTransfers(maxConcurrent);
+    setMaxConcurrentTransfersState(peerService.getMaxConcurrentTransfers());
+  }, []);
+
+  const setLivenessThresholds = useCallback((thresholds: Partial<LivenessThresholds>) => {
+    peerService.setLivenessThresholds(thresholds);
+    setLivenessThresholdsState(peerService.getLivenessThresholds());
+  }, []);
+
+  const saveGroupAsFolder = useCallback((groupId: string) => {
+    peerService.saveGroupAsFolder(groupId);
+  }, []);
+
+  const saveGroupAsZip = useCallback((groupId: string) => {
+    peerService.saveGroupAsZip(groupId);
+  }, []);
+
+  const queue = useMemo(() => Object.values(queues).flat(), [queues]);
+
+  const retryConnection = useCallback((codeOrPeerId: string) => {
+    connectWithCode(codeOrPeerId);
+  }, [connectWithCode]);
 
   return {
     peerId,
+    relayConnected,
+    relayHealth,
+    relayConfig,
+    setRelayUrls,
+    reconnectRelay,
+    sessionTakenOver,
+    reclaimSession,
+    contacts,
+    addContact,
+    updateContact,
+    removeContact,
     connections,
     files,
+    groups,
     pendingConnections,
+    fileOffers,
     connectionStatus,
     connectToPeer,
+    connectWithCode,
+    createPairingCode,
     sendFile,
+    sendFiles,
+    broadcastFile,
+    swarmFiles,
+    downloadFromSwarm,
+    shareToSwarm,
+    cancelTransfer,
+    pauseTransfer,
+    resumeTransfer,
+    queue,
+    maxConcurrentTransfers,
+    moveQueuedTransfer,
+    setMaxConcurrentTransfers,
+    livenessThresholds,
+    setLivenessThresholds,
+    saveGroupAsFolder,
+    saveGroupAsZip,
     disconnectPeer,
     acceptConnection,
     rejectConnection,
-    retryConnection
+    retryConnection,
+    setPeerVerified,
+    setAutoAccept,
+    acceptFileOffer,
+    declineFileOffer
   };
 };
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { useState, useEffect, useCallback } from 'react';
+import { peerService } from '../services/peerService';
+import { clearTransferHistory, loadTransferHistory } from '../services/transferHistory';
+import { TransferRecord } from '../types';
+
+export const useTransferHistory = () => {
+  const [records, setRecords] = useState<TransferRecord[]>([]);
+
+  useEffect(() => {
+    // Records that finish while the store loads are already in state
+    loadTransferHistory()
+      .then(stored => setRecords(prev => [
+        ...prev,
+        ...stored.filter(record => !prev.some(existing => existing.id === record.id))
+      ]))
+      .catch((error) => console.warn('Failed to load transfer history:', error));
+
+    const handleHistoryRecord = (record: TransferRecord) => {
+      setRecords(prev => [record, ...prev.filter(existing => existing.id !== record.id)]);
+    };
+
+    peerService.on('historyRecord', handleHistoryRecord);
+    return () => {
+      peerService.off('historyRecord', handleHistoryRecord);
+    };
+  }, []);
+
+  const clearHistory = useCallback(async () => {
+    await clearTransferHistory();
+    setRecords([]);
+  }, []);
+
+  return { records, clearHistory };
+};
@@ -0,0 +1,144 @@
+// Reads, hashes and encrypts the chunks of a file being sent.
+//
+// A transfer to one peer reads straight from the file. A broadcast shares one
+// source between its recipients: each chunk is read and encrypted once, under
+// a content key every recipient receives, and the result is held until each
+// recipient has taken it (or the cache fills up, in which case a straggler
+// simply encrypts its own copy again).
+//
+// Compressible files are deflated chunk by chunk before encryption. Each
+// chunk's SHA-256 is encrypted along with it (see FLAG_HASHED).
+
+import { compress } from '../utils/compression';
+import { Encryption } from '../utils/encryption';
+import { joinHashedPayload } from '../utils/framing';
+import { sha256 } from '../utils/integrity';
+
+const MAX_CACHED_BYTES = 32 * 1024 * 1024; // 32MB of encrypted chunks
+
+export interface SourceChunk {
+  hash: Uint8Array;
+  iv: Uint8Array;
+  data: Uint8Array;
+  // Plaintext length, for flow control
+  size: number;
+  compressed: boolean;
+  // Payload length before encryption, for the compression ratio
+  wireSize: number;
+}
+
+interface CachedChunk {
+  chunk: Promise<SourceChunk>;
+  size: number;
+  // Recipients that have not taken this chunk yet
+  waiting: Set<string>;
+}
+
+export class ChunkSource {
+  // SHA-256 of each plaintext chunk, for the root hash in file-complete
+  public readonly hashes: Uint8Array[] = [];
+  private cache = new Map<number, CachedChunk>();
+  private cachedBytes = 0;
+  private recipients: Set<string>;
+  public readonly compress: boolean;
+
+  // `contentId` is bound into every chunk's AAD; recipients learn it from file-start
+  constructor(
+    public readonly file: File,
+    public readonly key: CryptoKey,
+    public readonly contentId: string,
+    public readonly chunkSize: number,
+    options: { recipients?: string[]; compress?: boolean } = {}
+  ) {
+    this.recipients = new Set(options.recipients ?? []);
+    this.compress = options.compress ?? false;
+  }
+
+  public get totalChunks(): number {
+    return Math.ceil(this.file.size / this.chunkSize);
+  }
+
+  public read(chunkIndex: number, recipient?: string): Promise<SourceChunk> {
+    if (!recipient || this.recipients.size <= 1) {
+      return this.encrypt(chunkIndex);
+    }
+
+    let cached = this.cache.get(chunkIndex);
+    if (!cached) {
+      cached = {
+        chunk: this.encrypt(chunkIndex),
+        size: Math.min(this.chunkSize, this.file.size - chunkIndex * this.chunkSize),
+        waiting: new Set(this.recipients)
+      };
+      this.cache.set(chunkIndex, cached);
+      this.cachedBytes += cached.size;
+      this.trim();
+    }
+
+    cached.waiting.delete(recipient);
+    if (cached.waiting.size === 0) {
+      this.evict(chunkIndex);
+    }
+    return cached.chunk;
+  }
+
+  // A recipient that finished or dropped out no longer holds chunks back
+  public leave(recipient: string): void {
+    this.recipients.delete(recipient);
+    this.cache.forEach((cached, chunkIndex) => {
+      cached.waiting.delete(recipient);
+      if (cached.waiting.size === 0) {
+        this.evict(chunkIndex);
+      }
+    });
+  }
+
+  private async encrypt(chunkIndex: number): Promise<SourceChunk> {
+    const start = chunkIndex * this.chunkSize;
+    const end = Math.min(start + this.chunkSize, this.file.size);
+    const plaintext = await this.file.slice(start, end).arrayBuffer();
+    const hash = await sha256(plaintext);
+    this.hashes[chunkIndex] = hash;
+
+    // Keep the original when deflate does not help
+    let payload = plaintext;
+    if (this.compress) {
+      const deflated = await compress(plaintext);
+      if (deflated.byteLength < plaintext.byteLength) {
+        payload = deflated;
+      }
+    }
+
+    const encrypted = await Encryption.encryptChunk(
+      joinHashedPayload(hash, payload),
+      this.key,
+      this.contentId,
+      chunkIndex
+    );
+
+    return {
+      hash,
+      iv: encrypted.iv,
+      data: new Uint8Array(encrypted.data),
+      size: plaintext.byteLength,
+      compressed: payload !== plaintext,
+      wireSize: payload.byteLength
+    };
+  }
+
+  private evict(chunkIndex: number): void {
+    const cached = this.cache.get(chunkIndex);
+    if (!cached) return;
+
+    this.cache.delete(chunkIndex);
+    this.cachedBytes -= cached.size;
+  }
+
+  // Oldest chunks go first; Map iteration follows insertion order
+  private trim(): void {
+    for (const chunkIndex of this.cache.keys()) {
+      if (this.cachedBytes <= MAX_CACHED_BYTES) break;
+      this.evict(chunkIndex);
+    }
+  }
+}
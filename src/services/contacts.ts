@@ -0,0 +1,41 @@
+// The address book of saved peers, kept in IndexedDB.
+
+import { Contact } from '../types';
+import { CONTACTS_STORE, openDatabase, requestResult } from './database';
+
+export const AVATAR_COLORS = [
+  '#3b82f6',
+  '#6366f1',
+  '#8b5cf6',
+  '#ec4899',
+  '#ef4444',
+  '#f97316',
+  '#eab308',
+  '#22c55e',
+  '#14b8a6',
+  '#06b6d4'
+];
+
+// A stable starting colour, so a new contact does not look like the last one
+export const defaultAvatarColor = (peerId: string): string => {
+  let hash = 0;
+  for (let i = 0; i < peerId.length; i++) {
+    hash = (hash * 31 + peerId.charCodeAt(i)) >>> 0;
+  }
+  return AVATAR_COLORS[hash % AVATAR_COLORS.length];
+};
+
+export const loadContacts = async (): Promise<Contact[]> => {
+  const db = await openDatabase();
+  return await requestResult(db.transaction(CONTACTS_STORE).objectStore(CONTACTS_STORE).getAll()) as Contact[];
+};
+
+export const saveContact = async (contact: Contact): Promise<void> => {
+  const db = await openDatabase();
+  await requestResult(db.transaction(CONTACTS_STORE, 'readwrite').objectStore(CONTACTS_STORE).put(contact));
+};
+
+export const deleteContact = async (peerId: string): Promise<void> => {
+  const db = await openDatabase();
+  await requestResult(db.transaction(CONTACTS_STORE, 'readwrite').objectStore(CONTACTS_STORE).delete(peerId));
+};
@@ -0,0 +1,77 @@
+// The app's IndexedDB database. Each schema version adds its object stores in
+// `upgrade`, so existing data survives when a later version adds more.
+
+const DB_NAME = 'sharencrypt';
+const DB_VERSION = 4;
+
+export const HISTORY_STORE = 'history';
+export const IDENTITY_STORE = 'identity';
+export const CONTACTS_STORE = 'contacts';
+export const QUEUE_STORE = 'queue';
+
+let database: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase, oldVersion: number): void => {
+  if (oldVersion < 1) {
+    const history = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+    history.createIndex('finishedAt', 'finishedAt');
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(IDENTITY_STORE, { keyPath: 'id' });
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(CONTACTS_STORE, { keyPath: 'peerId' });
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      let blocked = false;
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => {
+        const db = request.result;
+        // Already given up on; don't hold a connection nobody uses
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Step aside when another tab needs a newer version
+        db.onversionchange = () => {
+          db.close();
+          database = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      // Another tab still has an older version open
+      request.onblocked = () => {
+        blocked = true;
+        console.warn('The database upgrade is blocked by another open tab of the app');
+        reject(new Error('Close other tabs of the app to finish updating its storage'));
+      };
+    });
+
+    // Let a later call try again instead of caching the failure
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+export const requestResult = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
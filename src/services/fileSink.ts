@@ -0,0 +1,229 @@
+// Destinations for received file data. Chunks are written at their byte
+// offset as they arrive, so a transfer never has to fit in memory.
+//
+// Preference order:
+//   1. File System Access API: the user picks a location, bytes go straight there
+//   2. Origin Private File System: a temp file, handed to the browser's download at the end
+//   3. In-memory chunks, for browsers with neither
+//
+// Each tab keeps its temp files in its own OPFS directory and holds a Web Lock
+// named after it while open, so a tab only ever clears directories whose tab
+// has gone away.
+
+import { nanoid } from 'nanoid';
+
+declare global {
+  interface Window {
+    showSaveFilePicker?: (options?: { suggestedName?: string }) => Promise<FileSystemFileHandle>;
+    showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+  }
+
+  interface FileSystemDirectoryHandle {
+    entries(): AsyncIterableIterator<[string, FileSystemHandle]>;
+  }
+}
+
+const OPFS_DIRECTORY = 'incoming';
+const SESSION_DIRECTORY = nanoid();
+const SESSION_LOCK_PREFIX = 'sharencrypt.incoming.';
+
+export interface FileSink {
+  readonly kind: 'file-system' | 'opfs' | 'memory';
+  write(position: number, data: ArrayBuffer): Promise<void>;
+  // Resolves with a File to hand to the browser's download, or null when
+  // the data already lives where the user asked for it
+  close(): Promise<File | null>;
+  abort(): Promise<void>;
+  // Frees temporary storage behind the File returned by close()
+  release(): Promise<void>;
+}
+
+class FileSystemSink implements FileSink {
+  readonly kind = 'file-system';
+
+  constructor(private writable: FileSystemWritableFileStream) {}
+
+  async write(position: number, data: ArrayBuffer): Promise<void> {
+    await this.writable.write({ type: 'write', position, data });
+  }
+
+  async close(): Promise<File | null> {
+    await this.writable.close();
+    return null;
+  }
+
+  async abort(): Promise<void> {
+    await this.writable.abort();
+  }
+
+  async release(): Promise<void> {}
+}
+
+class OpfsSink implements FileSink {
+  readonly kind = 'opfs';
+
+  constructor(
+    private directory: FileSystemDirectoryHandle,
+    private handle: FileSystemFileHandle,
+    private writable: FileSystemWritableFileStream,
+    private name: string,
+    private type: string
+  ) {}
+
+  async write(position: number, data: ArrayBuffer): Promise<void> {
+    await this.writable.write({ type: 'write', position, data });
+  }
+
+  async close(): Promise<File | null> {
+    await this.writable.close();
+    const file = await this.handle.getFile();
+    return new File([file], this.name, { type: this.type });
+  }
+
+  async abort(): Promise<void> {
+    await this.writable.abort();
+    await this.release();
+  }
+
+  async release(): Promise<void> {
+    await this.directory.removeEntry(this.handle.name);
+  }
+}
+
+class MemorySink implements FileSink {
+  readonly kind = 'memory';
+  private chunks: { position: number; data: ArrayBuffer }[] = [];
+
+  constructor(private name: string, private type: string) {}
+
+  async write(position: number, data: ArrayBuffer): Promise<void> {
+    this.chunks.push({ position, data });
+  }
+
+  async close(): Promise<File | null> {
+    const ordered = this.chunks
+      .sort((a, b) => a.position - b.position)
+      .map(chunk => chunk.data);
+    this.chunks = [];
+    return new File(ordered, this.name, { type: this.type });
+  }
+
+  async abort(): Promise<void> {
+    this.chunks = [];
+  }
+
+  async release(): Promise<void> {}
+}
+
+const createFileSystemSink = async (name: string): Promise<FileSink | null> => {
+  if (!window.showSaveFilePicker) return null;
+
+  try {
+    const handle = await window.showSaveFilePicker({ suggestedName: name });
+    return new FileSystemSink(await handle.createWritable());
+  } catch (error) {
+    // Needs a user gesture, and the user may cancel the picker
+    console.warn('Save picker unavailable, using temporary storage:', error);
+    return null;
+  }
+};
+
+const createOpfsSink = async (
+  transferId: string,
+  name: string,
+  type: string
+): Promise<FileSink | null> => {
+  if (!navigator.storage?.getDirectory) return null;
+
+  try {
+    const root = await navigator.storage.getDirectory();
+    const incoming = await root.getDirectoryHandle(OPFS_DIRECTORY, { create: true });
+    const directory = await incoming.getDirectoryHandle(SESSION_DIRECTORY, { create: true });
+    const handle = await directory.getFileHandle(transferId, { create: true });
+    return new OpfsSink(directory, handle, await handle.createWritable(), name, type);
+  } catch (error) {
+    console.warn('OPFS unavailable, buffering in memory:', error);
+    return null;
+  }
+};
+
+export const createFileSink = async (
+  transferId: string,
+  name: string,
+  type: string,
+  options: { askForLocation?: boolean } = {}
+): Promise<FileSink> => {
+  // Files that belong to a folder are saved together at the end instead
+  const askForLocation = options.askForLocation ?? true;
+
+  return (askForLocation ? await createFileSystemSink(name) : null)
+    ?? await createOpfsSink(transferId, name, type)
+    ?? new MemorySink(name, type);
+};
+
+// Temp files left behind by a closed tab are never going to be finished.
+// Claims this tab's directory first, then removes those no open tab holds;
+// loose files from before directories were per tab go once `staleAfter` ms
+// old. Without Web Locks other tabs' directories are left alone.
+export const clearTemporaryFiles = async (staleAfter: number): Promise<void> => {
+  if (!navigator.storage?.getDirectory) return;
+
+  // Held until the tab closes
+  navigator.locks?.request(SESSION_LOCK_PREFIX + SESSION_DIRECTORY, () => new Promise<void>(() => {}));
+
+  try {
+    const root = await navigator.storage.getDirectory();
+    const incoming = await root.getDirectoryHandle(OPFS_DIRECTORY);
+    const held = navigator.locks
+      ? new Set((await navigator.locks.query()).held?.map(lock => lock.name))
+      : null;
+
+    // Collected first so the directory is not changed while being listed
+    const stale: string[] = [];
+    for await (const [name, handle] of incoming.entries()) {
+      if (name === SESSION_DIRECTORY) continue;
+
+      if (handle.kind === 'directory') {
+        if (held && !held.has(SESSION_LOCK_PREFIX + name)) stale.push(name);
+      } else {
+        const file = await (handle as FileSystemFileHandle).getFile();
+        if (Date.now() - file.lastModified > staleAfter) stale.push(name);
+      }
+    }
+
+    for (const name of stale) {
+      await incoming.removeEntry(name, { recursive: true });
+    }
+  } catch (error) {
+    if (!(error instanceof DOMException && error.name === 'NotFoundError')) {
+      console.warn('Failed to clear temporary files:', error);
+    }
+  }
+};
+
+export const canSaveToDirectory = (): boolean => !!window.showDirectoryPicker;
+
+// Recreates `path` (already sanitized) under a folder the user picks
+export const saveFilesToDirectory = async (
+  entries: { path: string; file: File }[]
+): Promise<void> => {
+  if (!window.showDirectoryPicker) {
+    throw new Error('Saving folders is not supported in this browser');
+  }
+
+  const root = await window.showDirectoryPicker({ mode: 'readwrite' });
+
+  for (const { path, file } of entries) {
+    const segments = path.split('/');
+    const fileName = segments.pop()!;
+
+    let directory = root;
+    for (const segment of segments) {
+      directory = await directory.getDirectoryHandle(segment, { create: true });
+    }
+
+    const handle = await directory.getFileHandle(fileName, { create: true });
+    const writable = await handle.createWritable();
+    await file.stream().pipeTo(writable);
+  }
+};
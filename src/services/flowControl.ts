@@ -0,0 +1,81 @@
+// Sliding-window flow control for outgoing transfers.
+//
+// The window is the number of plaintext bytes the sender may have in flight
+// (sent but not yet acknowledged by the receiver). It starts small, doubles
+// per round trip while the transport keeps up (slow start), then grows
+// additively, and is halved whenever the transport's send buffer backs up.
+// It never shrinks below a full batch of chunks: the receiver only acks once
+// per batch, so a smaller window would wait out the ack timeout every time.
+
+export const MIN_WINDOW = 64 * 1024; // 64KB
+export const INITIAL_WINDOW = 256 * 1024; // 256KB
+export const MAX_WINDOW = 16 * 1024 * 1024; // 16MB
+export const ACK_EVERY_CHUNKS = 4; // Receiver acknowledges after this many chunks
+
+// Transport send buffer levels, in bytes
+export const BUFFER_HIGH_WATER = 4 * 1024 * 1024; // 4MB
+export const BUFFER_LOW_WATER = 1024 * 1024; // 1MB
+
+export class SendWindow {
+  private minSize: number;
+  private size: number;
+  private slowStartThreshold = MAX_WINDOW;
+  private bytesSent = 0;
+  private bytesAcked = 0;
+  private lastProgressAt = Date.now();
+
+  constructor(chunkSize: number) {
+    this.minSize = Math.max(MIN_WINDOW, ACK_EVERY_CHUNKS * chunkSize);
+    this.size = Math.max(INITIAL_WINDOW, this.minSize);
+  }
+
+  public get inFlight(): number {
+    return Math.max(0, this.bytesSent - this.bytesAcked);
+  }
+
+  public get acked(): number {
+    return this.bytesAcked;
+  }
+
+  // Time since the receiver last acknowledged anything
+  public get idleFor(): number {
+    return Date.now() - this.lastProgressAt;
+  }
+
+  public hasCapacity(): boolean {
+    // Always let at least one chunk through so an oversized chunk cannot stall
+    return this.inFlight === 0 || this.inFlight < this.size;
+  }
+
+  public onSent(bytes: number): void {
+    this.bytesSent += bytes;
+  }
+
+  // After an interruption, anything not acknowledged is presumed lost and
+  // will be re-sent, so restart the window from the receiver's count
+  public reset(totalAcked: number): void {
+    this.bytesAcked = Math.max(this.bytesAcked, totalAcked);
+    this.bytesSent = this.bytesAcked;
+    this.size = Math.max(this.minSize, this.size / 2);
+    this.lastProgressAt = Date.now();
+  }
+
+  // `totalAcked` is cumulative, so duplicate or reordered acks are harmless
+  public onAck(totalAcked: number, bufferedAmount: number): void {
+    const newlyAcked = totalAcked - this.bytesAcked;
+    if (newlyAcked <= 0) return;
+
+    this.bytesAcked = totalAcked;
+    this.lastProgressAt = Date.now();
+
+    if (bufferedAmount > BUFFER_HIGH_WATER) {
+      // The transport is the bottleneck; back off
+      this.slowStartThreshold = Math.max(this.minSize, this.size / 2);
+      this.size = this.slowStartThreshold;
+    } else if (this.size < this.slowStartThreshold) {
+      this.size = Math.min(MAX_WINDOW, this.size + newlyAcked);
+    } else {
+      this.size = Math.min(MAX_WINDOW, this.size + (newlyAcked * MIN_WINDOW) / this.size);
+    }
+  }
+}
@@ -0,0 +1,142 @@
+// This device's long-term identity: an ECDSA P-256 key pair kept in
+// IndexedDB, so the peer id (and its QR code) stays the same across reloads.
+//
+// The private key is stored non-extractable; the browser can sign with it
+// but never hands out its bytes. The peer id is derived from the public key,
+// and the relay only accepts a registration signed with the matching private
+// key, so nobody else can register (or take over) this id. Peers also sign
+// their half of each connection handshake with it, so a saved contact is
+// recognised by its key rather than by whatever id the relay forwards.
+
+import { sha256, toHex } from '../utils/integrity';
+import { IDENTITY_STORE, openDatabase, requestResult } from './database';
+
+const IDENTITY_ID = 'device';
+const KEY_ALGORITHM: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGNATURE_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+const PEER_ID_BYTES = 16;
+// Prefixes keep a signature made for one purpose from passing for another
+const REGISTER_CONTEXT = 'sharencrypt-register:';
+const HANDSHAKE_CONTEXT = 'sharencrypt-handshake:';
+
+interface StoredIdentity {
+  id: string;
+  privateKey: CryptoKey;
+  publicKey: CryptoKey;
+}
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (encoded: string): Uint8Array => Uint8Array.from(atob(encoded), c => c.charCodeAt(0));
+
+// Binds a handshake key to both ends, so it cannot be replayed to someone else
+const handshakeData = (senderId: string, targetId: string, handshakeKey: string): Uint8Array => {
+  return new TextEncoder().encode(`${HANDSHAKE_CONTEXT}${senderId}:${targetId}:${handshakeKey}`);
+};
+
+// The relay derives the same id from the public key it is sent
+const derivePeerId = async (publicKey: Uint8Array): Promise<string> => {
+  const digest = await sha256(publicKey);
+  return toHex(digest.subarray(0, PEER_ID_BYTES));
+};
+
+const generateIdentity = async (): Promise<StoredIdentity> => {
+  const keyPair = await window.crypto.subtle.generateKey(KEY_ALGORITHM, false, ['sign', 'verify']);
+  return { id: IDENTITY_ID, privateKey: keyPair.privateKey, publicKey: keyPair.publicKey };
+};
+
+const loadStoredIdentity = async (): Promise<StoredIdentity> => {
+  const db = await openDatabase();
+  const stored = await requestResult(
+    db.transaction(IDENTITY_STORE).objectStore(IDENTITY_STORE).get(IDENTITY_ID)
+  ) as StoredIdentity | undefined;
+  if (stored) return stored;
+
+  const created = await generateIdentity();
+  try {
+    await requestResult(
+      db.transaction(IDENTITY_STORE, 'readwrite').objectStore(IDENTITY_STORE).add(created)
+    );
+    return created;
+  } catch (error) {
+    // Another tab saved its key first; use that one so both share the id
+    const winner = await requestResult(
+      db.transaction(IDENTITY_STORE).objectStore(IDENTITY_STORE).get(IDENTITY_ID)
+    ) as StoredIdentity | undefined;
+    if (!winner) throw error;
+    return winner;
+  }
+};
+
+// The full SHA-256 of an identity key, which is what contacts remember
+export const keyFingerprint = async (identityKey: string): Promise<string> => {
+  return toHex(await sha256(fromBase64(identityKey)));
+};
+
+// Checks that `identityKey` belongs to `senderId` and signed its handshake key
+export const verifyHandshake = async (
+  senderId: string,
+  targetId: string,
+  handshakeKey: string,
+  identityKey: string,
+  signature: string
+): Promise<boolean> => {
+  try {
+    const publicKey = fromBase64(identityKey);
+    if (await derivePeerId(publicKey) !== senderId) return false;
+
+    const key = await window.crypto.subtle.importKey('raw', publicKey, KEY_ALGORITHM, false, ['verify']);
+    return await window.crypto.subtle.verify(
+      SIGNATURE_ALGORITHM,
+      key,
+      fromBase64(signature),
+      handshakeData(senderId, targetId, handshakeKey)
+    );
+  } catch (error) {
+    console.warn('Could not verify handshake signature:', error);
+    return false;
+  }
+};
+
+export class DeviceIdentity {
+  private constructor(
+    public readonly peerId: string,
+    // Raw uncompressed point, base64
+    public readonly publicKey: string,
+    private privateKey: CryptoKey
+  ) {}
+
+  // Falls back to a key for this session only when IndexedDB is unavailable
+  // (some private browsing modes); the id then changes on reload as before
+  public static async load(): Promise<DeviceIdentity> {
+    let identity: StoredIdentity;
+    try {
+      identity = await loadStoredIdentity();
+    } catch (error) {
+      console.warn('Could not load the stored identity, using a temporary one:', error);
+      identity = await generateIdentity();
+    }
+
+    const publicKey = new Uint8Array(await window.crypto.subtle.exportKey('raw', identity.publicKey));
+    return new DeviceIdentity(await derivePeerId(publicKey), toBase64(publicKey), identity.privateKey);
+  }
+
+  // Answers the relay's registration challenge
+  public async signChallenge(challenge: string): Promise<string> {
+    const signature = await window.crypto.subtle.sign(
+      SIGNATURE_ALGORITHM,
+      this.privateKey,
+      new TextEncoder().encode(REGISTER_CONTEXT + challenge)
+    );
+    return toBase64(new Uint8Array(signature));
+  }
+
+  // Vouches for our ephemeral key in a connection request or acceptance
+  public async signHandshake(targetId: string, handshakeKey: string): Promise<string> {
+    const signature = await window.crypto.subtle.sign(
+      SIGNATURE_ALGORITHM,
+      this.privateKey,
+      handshakeData(this.peerId, targetId, handshakeKey)
+    );
+    return toBase64(new Uint8Array(signature));
+  }
+}
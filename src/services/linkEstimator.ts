@@ -0,0 +1,76 @@
+// Per-peer link measurements, used to pick the chunk size for each transfer.
+//
+// RTT comes from ping/pong probes and throughput from the receiver's acks,
+// both smoothed like TCP's SRTT. Bigger chunks cut per-frame overhead on a
+// fast link; smaller ones keep a slow link responsive and make a lost chunk
+// cheap to re-send. A chunk is sized to take about CHUNK_TARGET_TIME on the
+// wire, while keeping several chunks in flight per round trip so acks keep
+// flowing. A transfer keeps the size it started with, so each file adapts to
+// what was measured before it.
+
+export const MIN_CHUNK_SIZE = 16 * 1024; // 16KB
+export const MAX_CHUNK_SIZE = 256 * 1024; // 256KB
+
+const CHUNK_TARGET_TIME = 0.025; // seconds of transmission per chunk
+const CHUNKS_PER_ROUND_TRIP = 4;
+const SMOOTHING = 0.125;
+const MIN_SAMPLE_TIME = 200; // ms of acks per throughput sample
+const IDLE_GAP = 1000; // ms without acks ends a sample instead of diluting it
+
+export class LinkEstimator {
+  private rtt: number | null = null;
+  private throughput: number | null = null;
+  private sampleStart = 0;
+  private sampleBytes = 0;
+  private lastAckAt = 0;
+
+  // Smoothed round trip in ms, once a probe has come back
+  public get roundTrip(): number | null {
+    return this.rtt;
+  }
+
+  // Smoothed bytes per second, once enough acks have arrived
+  public get bytesPerSecond(): number | null {
+    return this.throughput;
+  }
+
+  public onRtt(sample: number): void {
+    if (sample < 0) return;
+    this.rtt = this.rtt === null ? sample : this.rtt + SMOOTHING * (sample - this.rtt);
+  }
+
+  public onAcked(bytes: number): void {
+    const now = Date.now();
+    if (now - this.lastAckAt > IDLE_GAP) {
+      this.sampleStart = now;
+      this.sampleBytes = 0;
+    }
+    this.lastAckAt = now;
+    this.sampleBytes += bytes;
+
+    const elapsed = now - this.sampleStart;
+    if (elapsed < Math.max(MIN_SAMPLE_TIME, this.rtt ?? 0)) return;
+
+    const sample = (this.sampleBytes * 1000) / elapsed;
+    this.throughput = this.throughput === null
+      ? sample
+      : this.throughput + SMOOTHING * (sample - this.throughput);
+    this.sampleStart = now;
+    this.sampleBytes = 0;
+  }
+
+  // A multiple of MIN_CHUNK_SIZE no larger than `limit`, the biggest chunk the
+  // transport can carry
+  public chunkSize(limit = MAX_CHUNK_SIZE): number {
+    const ceiling = Math.max(MIN_CHUNK_SIZE, Math.min(MAX_CHUNK_SIZE, limit));
+    if (this.throughput === null) return MIN_CHUNK_SIZE;
+
+    let target = this.throughput * CHUNK_TARGET_TIME;
+    if (this.rtt !== null) {
+      target = Math.min(target, (this.throughput * this.rtt) / 1000 / CHUNKS_PER_ROUND_TRIP);
+    }
+
+    const size = Math.floor(target / MIN_CHUNK_SIZE) * MIN_CHUNK_SIZE;
+    return Math.max(MIN_CHUNK_SIZE, Math.min(ceiling, size));
+  }
+}
@@ -0,0 +1,144 @@
+// Notices peers that went away without saying so, e.g. by closing the tab.
+//
+// Every few seconds each peer that has been quiet is probed with a ping. Only
+// silence after an unanswered probe counts against a peer, so a busy peer is
+// never probed and a background tab whose timers the browser slows down does
+// not mistake its own late tick for the peer's silence. A peer is degraded
+// and then lost as that silence grows, and dead once it passes `removeAfter`.
+
+import { PeerHealth } from '../types';
+
+export interface LivenessThresholds {
+  // ms of silence after a probe before a peer is shown as degraded, lost,
+  // and finally removed
+  degradedAfter: number;
+  lostAfter: number;
+  removeAfter: number;
+}
+
+export const LIVENESS_CHECK_INTERVAL = 5000; // Also how long a peer may be quiet before it is probed
+export const DEFAULT_LIVENESS_THRESHOLDS: LivenessThresholds = {
+  degradedAfter: 10000,
+  lostAfter: 30000,
+  removeAfter: 120000
+};
+
+const STORAGE_KEY = 'sharencrypt.livenessThresholds';
+
+// Only the stages that were saved; the rest keep their defaults
+export const loadSavedLivenessThresholds = (): Partial<LivenessThresholds> => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    const thresholds: Partial<LivenessThresholds> = {};
+    (Object.keys(DEFAULT_LIVENESS_THRESHOLDS) as (keyof LivenessThresholds)[]).forEach(key => {
+      if (typeof saved?.[key] === 'number' && Number.isFinite(saved[key])) thresholds[key] = saved[key];
+    });
+    return thresholds;
+  } catch {
+    return {};
+  }
+};
+
+export const saveLivenessThresholds = (thresholds: LivenessThresholds): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(thresholds));
+  } catch (error) {
+    console.warn('Could not save liveness settings:', error);
+  }
+};
+
+interface MonitoredPeer {
+  id: string;
+  lastActivity: number;
+}
+
+export class LivenessMonitor {
+  private health = new Map<string, PeerHealth>();
+  // When the first probe since the peer's last activity went out
+  private probedAt = new Map<string, number>();
+  private limits: LivenessThresholds = { ...DEFAULT_LIVENESS_THRESHOLDS };
+  private timer: number | null = null;
+
+  constructor(
+    private peers: () => MonitoredPeer[],
+    private probe: (peerId: string) => void,
+    private onHealthChange: (peerId: string, health: PeerHealth) => void,
+    private onDead: (peerId: string) => void
+  ) {}
+
+  public get thresholds(): LivenessThresholds {
+    return { ...this.limits };
+  }
+
+  // Each stage is kept at least one check after the one before it
+  public setThresholds(thresholds: Partial<LivenessThresholds>): void {
+    const next = { ...this.limits, ...thresholds };
+    const degradedAfter = Math.max(LIVENESS_CHECK_INTERVAL, Math.floor(next.degradedAfter));
+    const lostAfter = Math.max(degradedAfter + LIVENESS_CHECK_INTERVAL, Math.floor(next.lostAfter));
+    const removeAfter = Math.max(lostAfter + LIVENESS_CHECK_INTERVAL, Math.floor(next.removeAfter));
+    this.limits = { degradedAfter, lostAfter, removeAfter };
+  }
+
+  public start(): void {
+    if (this.timer !== null) return;
+    this.timer = window.setInterval(() => this.check(), LIVENESS_CHECK_INTERVAL);
+  }
+
+  public stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  public healthOf(peerId: string): PeerHealth {
+    return this.health.get(peerId) ?? 'good';
+  }
+
+  // Any message or frame from the peer
+  public alive(peerId: string): void {
+    this.probedAt.delete(peerId);
+    this.setHealth(peerId, 'good');
+  }
+
+  public forget(peerId: string): void {
+    this.health.delete(peerId);
+    this.probedAt.delete(peerId);
+  }
+
+  private check(): void {
+    const now = Date.now();
+
+    this.peers().forEach(peer => {
+      if (now - peer.lastActivity < LIVENESS_CHECK_INTERVAL) return;
+
+      const probedAt = this.probedAt.get(peer.id);
+      if (probedAt === undefined || probedAt < peer.lastActivity) {
+        this.probedAt.set(peer.id, now);
+        this.probe(peer.id);
+        return;
+      }
+
+      // The probe has had a whole interval to come back
+      const silence = now - probedAt + LIVENESS_CHECK_INTERVAL;
+      if (silence >= this.limits.removeAfter) {
+        this.forget(peer.id);
+        this.onDead(peer.id);
+        return;
+      }
+
+      this.probe(peer.id);
+      this.setHealth(
+        peer.id,
+        silence >= this.limits.lostAfter ? 'lost' : silence >= this.limits.degradedAfter ? 'degraded' : 'good'
+      );
+    });
+  }
+
+  private setHealth(peerId: string, health: PeerHealth): void {
+    if (this.healthOf(peerId) === health) return;
+
+    this.health.set(peerId, health);
+    this.onHealthChange(peerId, health);
+  }
+}
@@ -1,17 +1,86 @@
 import { nanoid } from 'nanoid';
 import toast from 'react-hot-toast';
-import { FileTransfer } from '../types';
+import { Contact, FileTransfer, PairingCode, RelayHealth } from '../types';
+import { Encryption } from '../utils/encryption';
+import {
+  ChunkFrame,
+  FLAG_COMPRESSED,
+  FLAG_ENCRYPTED,
+  FLAG_HASHED,
+  FRAME_FILE_CHUNK,
+  decodeChunkFrame,
+  encodeChunkFrame,
+  getFrameType,
+  splitHashedPayload,
+  unwrapRelayEnvelope,
+  wrapRelayEnvelope
+} from '../utils/framing';
+import {
+  COMPRESSION_FORMAT,
+  decompress,
+  isCompressionSupported,
+  shouldCompress
+} from '../utils/compression';
+import { decodeHashList, encodeHashList, hashesEqual, rootHash, sha256 } from '../utils/integrity';
+import { SelectedFile, sanitizePath } from '../utils/fileEntries';
+import { isPairingCode, normalizePairingCode } from '../utils/pairing';
+import { createZip } from '../utils/zip';
+import {
+  FileSink,
+  clearTemporaryFiles,
+  createFileSink,
+  saveFilesToDirectory
+} from './fileSink';
+import { ACK_EVERY_CHUNKS, BUFFER_HIGH_WATER, BUFFER_LOW_WATER, SendWindow } from './flowControl';
+import { SendTurns, TransferScheduler } from './transferScheduler';
+import { QueuedSend, deleteQueuedSend, loadQueuedSends, saveQueuedSend } from './queuedSends';
+import { ChunkSource, SourceChunk } from './chunkSource';
+import { LinkEstimator, MAX_CHUNK_SIZE, MIN_CHUNK_SIZE } from './linkEstimator';
+import { RateMeter } from './rateMeter';
+import {
+  LivenessMonitor,
+  LivenessThresholds,
+  loadSavedLivenessThresholds,
+  saveLivenessThresholds
+} from './livenessMonitor';
+import { RelayConfig, resolveRelayConfig, saveRelayUrls } from './relayConfig';
+import { TransferHistory } from './transferHistory';
+import { DeviceIdentity, keyFingerprint, verifyHandshake } from './identity';
+import { defaultAvatarColor, deleteContact, loadContacts, saveContact } from './contacts';
+import {
+  ChunkRange,
+  SWARM_CHUNK_SIZE,
+  SWARM_MANIFEST_PAGE,
+  SwarmDownload,
+  fullRange,
+  hashSwarmChunks,
+  isChunkRangeList
+} from './swarm';
 
 // Configuration
-const CHUNK_SIZE = 16384; // 16KB chunks
 const CONNECTION_TIMEOUT = 15000; // 15 seconds
-const RECONNECT_ATTEMPTS = 3;
-
-// Get the WebSocket URL based on the current environment
-const getWebSocketUrl = () => "wss://sharenrypt-p2p-file-sharing.onrender.com/ws";
-
-
-const RELAY_SERVER_URL = getWebSocketUrl();
+const RECONNECT_ATTEMPTS = 3; // Rounds through the relay list before giving up
+const RELAY_FALLBACK_DELAY = 500; // ms before trying the next relay in the list
+const RELAY_PING_INTERVAL = 30000; // Keeps the socket alive and measures the relay's latency
+const ACK_TIMEOUT = 30000; // 30 seconds without an ack fails the transfer
+const FLOW_POLL_INTERVAL = 50; // Re-check the send buffer while the window is full
+const RESUME_TIMEOUT = 60000; // 60 seconds for an interrupted transfer to resume
+const MAX_CHUNK_RETRIES = 3; // Corrupt copies of one chunk tolerated before giving up
+const TRANSFER_STALE_TIMEOUT = 300000; // 5 minutes without chunks drops a received transfer
+const DOWNLOAD_RELEASE_DELAY = 60000; // Keep temp storage alive while the browser copies the download
+const OFFER_TIMEOUT = 120000; // 2 minutes for the receiver to answer a file offer
+const DIRECT_CONNECTION_TIMEOUT = 10000; // 10 seconds to open a data channel before staying on relay
+const DATA_CHANNEL_MAX_MESSAGE = 262144; // Assumed when the SCTP transport does not say; the common browser limit
+const RELAY_MAX_MESSAGE = 1024 * 1024; // The relay server's maxPayload
+const FRAME_OVERHEAD = 1024; // Chunk frame header, GCM tag and relay envelope, rounded up
+const SWARM_MANIFEST_TIMEOUT = 15000; // 15 seconds for a holder to send a page of chunk hashes
+const SWARM_STALL_TIMEOUT = 15000; // A swarm source silent this long loses its range to another peer
+const SEED_RETENTION = 1800000; // Finished files can be shared, and stay shared, for 30 minutes
+const RELAY_REQUEST_TIMEOUT = 15000; // 15 seconds for the relay to answer a request of its own
+const ICE_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' }
+];
 
 // Connection types
 type ConnectionMode = 'direct' | 'relay' | 'disconnected';
@@ -22,12 +91,26 @@ type MessageType =
   | 'connection-request' 
   | 'connection-accept'
   | 'connection-reject'
+  | 'file-offer'
+  | 'file-accept'
+  | 'file-decline'
+  | 'manifest'
   | 'file-start'
-  | 'file-chunk'
+  | 'file-ack'
+  | 'file-pause'
+  | 'file-resume'
+  | 'file-cancel'
   | 'file-complete'
+  | 'swarm-have'
+  | 'swarm-manifest-request'
+  | 'swarm-manifest'
+  | 'swarm-request'
   | 'ping'
   | 'pong'
-  | 'disconnect';
+  | 'disconnect'
+  | 'rtc-offer'
+  | 'rtc-answer'
+  | 'rtc-ice-candidate';
 
 interface Message {
   type: MessageType;
@@ -42,48 +125,346 @@ interface PeerConnection {
   connected: boolean;
   mode: ConnectionMode;
   lastActivity: number;
+  rtc?: RTCPeerConnection;
+  dataChannel?: RTCDataChannel;
+  pendingCandidates?: RTCIceCandidateInit[];
+  directTimeout?: number;
+  // Derived from the ECDH handshake; never leaves this browser
+  sessionKey: CryptoKey;
+  safetyCode: string;
+  verified: boolean;
+  // Of the identity key that signed the peer's half of the handshake
+  fingerprint: string;
+  // RTT and throughput, for sizing the chunks of new transfers
+  link: LinkEstimator;
+}
+
+interface PendingHandshake {
+  keyPair: CryptoKeyPair;
+  publicKey: string;
+}
+
+interface PendingRequest extends PendingHandshake {
+  peerPublicKey: string;
+  safetyCode: string;
+  fingerprint: string;
+}
+
+// What a sender describes before any bytes flow; `id` is the transfer id for
+// a single file, or the group id for a manifest
+interface FileOfferDetails {
+  id: string;
+  name: string;
+  size: number;
+  type: string;
+  fileCount: number;
+}
+
+type OfferAnswer = 'accepted' | 'declined' | 'unanswered' | 'cancelled';
+
+interface OutgoingOffer {
+  targetPeerId: string;
+  settle: (answer: OfferAnswer) => void;
+}
+
+interface IncomingOffer extends FileOfferDetails {
+  senderId: string;
+  timer: number;
 }
 
+// An accepted offer waiting for its file-start or manifest
+interface AcceptedOffer {
+  senderId: string;
+  // Opened while handling the accept click, so the save picker has a user gesture
+  sink?: Promise<FileSink>;
+  timer: number;
+}
+
+type TransferOutcome = 'completed' | 'declined' | 'cancelled' | 'error';
+
 interface FileTransferState {
-  chunks: ArrayBuffer[];
+  // Set once the sink opens; chunk writes queue behind it on `decrypting`
+  sink?: FileSink;
   metadata: {
     id: string;
     name: string;
     size: number;
     type: string;
+    groupId?: string;
   };
+  // Chosen by the sender and announced in file-start
+  chunkSize: number;
+  // Whether file-start allowed compressed chunks, and their size on the wire
+  compressed: boolean;
+  wireBytes: number;
+  meter: RateMeter;
+  totalChunks: number;
+  // Indices we hold; the basis for file-resume after a reconnect
+  receivedIndices: Set<number>;
+  // Verified SHA-256 of each chunk, checked against the sender's root at the end
+  chunkHashes: Uint8Array[];
+  corruptChunks: Map<number, number>;
+  receivedBytes: number;
+  unackedChunks: number;
+  senderId: string;
+  key: CryptoKey;
+  // Bound into each chunk's AAD: the transfer id, or the broadcast it belongs to
+  contentId: string;
+  // Chunks are decrypted and written in arrival order; file-complete waits on this chain
+  decrypting: Promise<void>;
+  failed: boolean;
+  paused: boolean;
+  staleTimer?: number;
+}
+
+interface ManifestEntry {
+  transferId: string;
+  path: string;
+  size: number;
+  type: string;
+}
+
+// A multi-file send announced by a manifest; its files are kept until the
+// user saves them together as a folder or zip
+interface IncomingGroup {
+  id: string;
+  senderId: string;
+  name: string;
+  entries: Map<string, ManifestEntry>;
+  files: Map<string, File>;
+  failed: boolean;
+}
+
+interface OutgoingTransfer {
+  id: string;
+  targetPeerId: string;
+  // Shared between recipients when the file is broadcast
+  source: ChunkSource;
   totalChunks: number;
-  receivedChunks: number;
+  // Next never-sent chunk, plus chunks the receiver reported missing
+  nextChunk: number;
+  resendQueue: number[];
+  // Set when a send fails; cleared by the receiver's file-resume reply
+  interrupted: boolean;
+  resumeRequestedAt?: number;
+  // Paused by either side; a user resume re-syncs through file-resume
+  paused: boolean;
+  cancelled: boolean;
+  window: SendWindow;
+  // Plaintext bytes sent and what they took after compression
+  payloadBytes: number;
+  wireBytes: number;
+  meter: RateMeter;
+  // Resolves the sender's pending wait when an ack or drain event arrives
+  wake?: () => void;
+}
+
+// A file sent or received in full, which the user may share with the swarm
+interface HeldFile {
+  file: File;
+  name: string;
+  type: string;
+  // Received files sit in temporary storage that is freed after a while
+  release?: () => Promise<void>;
+  expiryTimer?: number;
+}
+
+// A shared file this peer serves to swarm downloads, keyed by the root of its
+// SWARM_CHUNK_SIZE chunk hashes
+interface SwarmSeed extends HeldFile {
+  contentHash: string;
+  chunkHashes: Uint8Array[];
+  // The transfers whose rows show the file as shared
+  transferIds: string[];
+}
+
+// A file connected peers have advertised, and the chunks each of them holds
+interface SwarmListing {
+  contentHash: string;
+  name: string;
+  size: number;
+  type: string;
+  holders: Map<string, ChunkRange[]>;
+}
+
+// Sent by the relay itself rather than forwarded from a peer
+interface RelayMessage {
+  type?: string;
+  requestId?: string;
+  challenge?: string;
+  code?: string;
+  expiresAt?: number;
+  peerId?: string;
+  targetId?: string;
+  error?: string;
+  message?: string;
+  // The message a peer_not_found error refers to
+  originalMessage?: { type?: string };
+  // Set on peer messages, which share the `pong` type with the relay's
+  senderId?: string;
+}
+
+// A request to the relay itself, answered with a message carrying the same id
+interface RelayRequest {
+  resolve: (message: RelayMessage) => void;
+  reject: (error: Error) => void;
+  timeout: number;
+}
+
+interface SwarmDownloadState {
+  id: string;
+  contentHash: string;
+  name: string;
+  size: number;
+  type: string;
+  // Checked against the root hash before any range is requested
+  chunkHashes: Uint8Array[];
+  download: SwarmDownload;
+  sink?: FileSink;
+  // Chunks from all sources are verified and written one at a time
+  writing: Promise<void>;
+  receivedBytes: number;
+  meter: RateMeter;
+  // Set once the chunk hashes check out and ranges can be requested
+  ready: boolean;
+  failed: boolean;
+  paused: boolean;
+  watchdog?: number;
 }
 
 export class PeerService {
-  private peerId: string;
+  // Empty until the device identity has loaded
+  private peerId = '';
+  private identity: DeviceIdentity | null = null;
   private connections: Map<string, PeerConnection>;
   private websocket: WebSocket | null = null;
+  private relayConfig: RelayConfig;
+  // Position in the relay list of the one in use
+  private relayIndex = 0;
+  private relayHealth: RelayHealth;
+  private relayPingSentAt: number | null = null;
+  private relayReconnectTimer: number | null = null;
   private reconnectAttempts = 0;
+  private hasConnectedToRelay = false;
+  // The relay drops everything but `register` until it has checked our signature
+  private relayRegistered = false;
+  // Set when another tab or window registered our peer id; we stay off the
+  // relay until the user takes the session back
+  private sessionTakenOver = false;
+  // The peer a user-initiated connectToPeer is waiting on
+  private connectTarget: string | null = null;
   private pingInterval: number | null = null;
   private activeTransfers: Map<string, FileTransferState>;
+  private outgoingTransfers: Map<string, OutgoingTransfer>;
+  private incomingGroups: Map<string, IncomingGroup>;
   private messageQueue: Map<string, Message[]>;
   private listeners: Map<string, Set<(data: any) => void>>;
   private connectionStatus: ConnectionStatus = 'idle';
-  private pendingConnections: Set<string>;
-  private encryptionKey: CryptoKey | null = null;
+  // Incoming requests, keyed by peer id, with our half of the handshake ready
+  private pendingConnections: Map<string, PendingRequest>;
+  // Our ephemeral key pairs for requests we have sent
+  private handshakes: Map<string, PendingHandshake>;
+  private outgoingOffers: Map<string, OutgoingOffer>;
+  private incomingOffers: Map<string, IncomingOffer>;
+  private acceptedOffers: Map<string, AcceptedOffer>;
+  // Peers whose offers skip the prompt
+  private autoAcceptPeers: Set<string>;
+  private contacts: Map<string, Contact>;
+  private scheduler: TransferScheduler<TransferOutcome>;
+  // What the queued jobs send, mirrored into IndexedDB
+  private queuedSends = new Map<string, QueuedSend>();
+  private liveness: LivenessMonitor;
+  private sendTurns = new SendTurns();
+  private history: TransferHistory;
+  // Finished files by transfer id, until they are shared or expire
+  private heldFiles = new Map<string, HeldFile>();
+  private swarmSeeds: Map<string, SwarmSeed>;
+  private swarmListings: Map<string, SwarmListing>;
+  private swarmDownloads: Map<string, SwarmDownloadState>;
+  // Pending swarm-manifest replies, keyed by content hash and page offset
+  private swarmManifestPages: Map<string, (hashes: Uint8Array[] | null) => void>;
+  private relayRequests: Map<string, RelayRequest>;
+  // Relay requests made before registration, sent once it completes
+  private relayOutbox: string[] = [];
 
   constructor() {
-    this.peerId = nanoid();
     this.connections = new Map();
     this.activeTransfers = new Map();
+    this.outgoingTransfers = new Map();
+    this.incomingGroups = new Map();
     this.messageQueue = new Map();
     this.listeners = new Map();
-    this.pendingConnections = new Set();
+    this.pendingConnections = new Map();
+    this.handshakes = new Map();
+    this.outgoingOffers = new Map();
+    this.incomingOffers = new Map();
+    this.acceptedOffers = new Map();
+    this.autoAcceptPeers = new Set();
+    this.contacts = new Map();
+    this.swarmSeeds = new Map();
+    this.swarmListings = new Map();
+    this.swarmDownloads = new Map();
+    this.swarmManifestPages = new Map();
+    this.relayRequests = new Map();
+    this.relayConfig = resolveRelayConfig();
+    this.relayHealth = {
+      url: this.relayConfig.urls[0],
+      state: 'connecting',
+      fallback: false,
+      source: this.relayConfig.source
+    };
+    this.history = new TransferHistory(
+      (peerId) => {
+        const mode = this.connections.get(peerId)?.mode;
+        return mode === 'disconnected' ? undefined : mode;
+      },
+      (record) => this.emit('historyRecord', record)
+    );
+    this.liveness = new LivenessMonitor(
+      () => Array.from(this.connections.values()),
+      (peerId) => this.probeLink(peerId),
+      (peerId) => this.emitPeerHealth(peerId),
+      (peerId) => this.removeDeadPeer(peerId)
+    );
+    this.liveness.setThresholds(loadSavedLivenessThresholds());
+    this.liveness.start();
+    this.scheduler = new TransferScheduler(
+      (peerId) => this.connections.has(peerId),
+      (peerId, queued) => {
+        this.persistQueue(peerId, queued);
+        this.emit('transferQueueChange', { peerId, queued });
+      }
+    );
     
-    // Initialize encryption key and connect to relay server
-    this.initialize();
-  }
+    // Drop partial downloads from earlier sessions, then load our identity
+    // and contacts and connect to relay server
+    clearTemporaryFiles(TRANSFER_STALE_TIMEOUT);
+    Promise.all([
+      DeviceIdentity.load(),
+      loadContacts().catch((error) => {
+        console.warn('Failed to load contacts:', error);
+        return [] as Contact[];
+      })
+    ])
+      .then(([identity, contacts]) => {
+        contacts.forEach(contact => {
+          this.contacts.set(contact.peerId, contact);
+          if (contact.autoAcceptFiles) {
+            this.autoAcceptPeers.add(contact.peerId);
+          }
+        });
+        this.emit('contactsChange', this.getContacts());
 
-  private async initialize() {
-    await this.initializeEncryption();
-    this.connectToRelayServer();
+        this.identity = identity;
+        this.peerId = identity.peerId;
+        this.emit('peerIdChange', this.peerId);
+        this.connectToRelayServer();
+        this.restoreQueuedSends();
+      })
+      .catch((error) => {
+        console.error('Failed to load device identity:', error);
+        toast.error('Could not create a device identity. Please reload the page.');
+      });
   }
 
   // Public methods
@@ -91,18 +472,332 @@ export class PeerService {
     return this.peerId;
   }
 
+  public isRelayConnected(): boolean {
+    return this.isRelayReady();
+  }
+
+  public getRelayHealth(): RelayHealth {
+    return this.relayHealth;
+  }
+
+  public getRelayConfig(): RelayConfig {
+    return { ...this.relayConfig, urls: [...this.relayConfig.urls] };
+  }
+
+  // Saves the list for next time and switches to it now; an empty list goes
+  // back to the build-time relays
+  public setRelayUrls(urls: string[]): void {
+    saveRelayUrls(urls);
+    this.relayConfig = urls.length > 0
+      ? { urls, source: 'settings' }
+      : resolveRelayConfig();
+    this.reconnectRelay();
+  }
+
+  // Starts again from the first relay in the list
+  public reconnectRelay(): void {
+    this.relayIndex = 0;
+    this.reconnectAttempts = 0;
+    if (this.identity && !this.sessionTakenOver) {
+      this.connectToRelayServer();
+    }
+  }
+
+  public isSessionTakenOver(): boolean {
+    return this.sessionTakenOver;
+  }
+
+  // Registers here again, which in turn signs out the other tab or window
+  public reclaimSession(): void {
+    if (!this.sessionTakenOver) return;
+
+    this.sessionTakenOver = false;
+    this.emit('sessionTakeover', false);
+    this.reconnectAttempts = 0;
+    this.connectToRelayServer();
+  }
+
   public getConnections(): PeerConnection[] {
     return Array.from(this.connections.values());
   }
 
   public getPendingConnections(): string[] {
-    return Array.from(this.pendingConnections);
+    return Array.from(this.pendingConnections.keys());
+  }
+
+  public getSafetyCode(peerId: string): string | undefined {
+    return this.connections.get(peerId)?.safetyCode
+      ?? this.pendingConnections.get(peerId)?.safetyCode;
+  }
+
+  public setPeerVerified(peerId: string, verified: boolean): void {
+    const connection = this.connections.get(peerId);
+    if (!connection || connection.verified === verified) return;
+
+    connection.verified = verified;
+    this.emit('peerVerificationChange', { peerId, verified });
+
+    const contact = this.contactFor(peerId, connection.fingerprint);
+    if (contact) {
+      this.storeContact({ ...contact, verified });
+    }
+  }
+
+  public setAutoAccept(peerId: string, autoAccept: boolean): void {
+    if (this.autoAcceptPeers.has(peerId) === autoAccept) return;
+
+    if (autoAccept) {
+      this.autoAcceptPeers.add(peerId);
+    } else {
+      this.autoAcceptPeers.delete(peerId);
+    }
+    this.emit('autoAcceptChange', { peerId, autoAccept });
+
+    const contact = this.contacts.get(peerId);
+    if (contact) {
+      this.storeContact({ ...contact, autoAcceptFiles: autoAccept });
+    }
+  }
+
+  public getContacts(): Contact[] {
+    return Array.from(this.contacts.values());
+  }
+
+  // Saves a connected peer, remembering the identity key it connected with
+  public addContact(peerId: string, alias: string): void {
+    const connection = this.connections.get(peerId);
+    if (!connection) return;
+
+    const existing = this.contacts.get(peerId);
+    this.storeContact({
+      peerId,
+      alias: alias.trim() || existing?.alias || peerId.slice(0, 8),
+      color: existing?.color ?? defaultAvatarColor(peerId),
+      fingerprint: connection.fingerprint,
+      verified: connection.verified,
+      trusted: existing?.trusted ?? false,
+      autoAcceptFiles: this.autoAcceptPeers.has(peerId),
+      addedAt: existing?.addedAt ?? Date.now(),
+      lastSeen: Date.now()
+    });
+  }
+
+  public updateContact(peerId: string, changes: Partial<Pick<Contact, 'alias' | 'color' | 'trusted'>>): void {
+    const contact = this.contacts.get(peerId);
+    if (!contact) return;
+
+    this.storeContact({
+      ...contact,
+      ...changes,
+      alias: changes.alias?.trim() || contact.alias
+    });
+  }
+
+  public removeContact(peerId: string): void {
+    if (!this.contacts.delete(peerId)) return;
+
+    deleteContact(peerId).catch((error) => console.warn('Failed to delete contact:', error));
+    this.emit('contactsChange', this.getContacts());
+  }
+
+  // Call straight from the click handler: a single file's save picker needs the gesture
+  public acceptFileOffer(offerId: string, alwaysAccept = false): void {
+    const offer = this.incomingOffers.get(offerId);
+    if (!offer) return;
+
+    clearTimeout(offer.timer);
+    this.incomingOffers.delete(offerId);
+
+    if (alwaysAccept) {
+      this.setAutoAccept(offer.senderId, true);
+    }
+
+    this.acceptOffer(offer, true);
+  }
+
+  public declineFileOffer(offerId: string): void {
+    const offer = this.incomingOffers.get(offerId);
+    if (!offer) return;
+
+    clearTimeout(offer.timer);
+    this.incomingOffers.delete(offerId);
+
+    this.sendToPeer({
+      type: 'file-decline',
+      senderId: this.peerId,
+      targetId: offer.senderId,
+      payload: { id: offerId },
+      timestamp: Date.now()
+    });
+  }
+
+  // Works from either end, and on an offer the receiver has not answered yet
+  public cancelTransfer(transferId: string): void {
+    // Not started yet; nothing has reached the peer
+    if (this.scheduler.remove(transferId)) return;
+
+    // Sources finish their current range and the rest is ignored
+    const download = this.discardSwarmDownload(transferId);
+    if (download) {
+      this.emit('fileTransferError', {
+        id: transferId,
+        status: 'cancelled',
+        error: 'Cancelled'
+      });
+      toast(`${download.name} was cancelled`, { id: transferId });
+      return;
+    }
+
+    const offer = this.outgoingOffers.get(transferId);
+    if (offer) {
+      this.sendCancel(offer.targetPeerId, transferId);
+      offer.settle('cancelled');
+      return;
+    }
+
+    const outgoing = this.outgoingTransfers.get(transferId);
+    if (outgoing) {
+      this.sendCancel(outgoing.targetPeerId, transferId);
+      outgoing.cancelled = true;
+      outgoing.wake?.();
+      return;
+    }
+
+    const transfer = this.activeTransfers.get(transferId);
+    if (transfer) {
+      this.sendCancel(transfer.senderId, transferId);
+      this.cancelIncoming(transferId);
+    }
+  }
+
+  public pauseTransfer(transferId: string): void {
+    // A swarm download pauses by not asking for more ranges
+    const download = this.swarmDownloads.get(transferId);
+    if (download && !download.paused) {
+      download.paused = true;
+      this.emit('fileTransferProgress', { id: transferId, status: 'paused' });
+      return;
+    }
+
+    const outgoing = this.outgoingTransfers.get(transferId);
+    if (outgoing && !outgoing.paused) {
+      this.sendPause(outgoing.targetPeerId, transferId);
+      this.pauseOutgoing(outgoing);
+      return;
+    }
+
+    const transfer = this.activeTransfers.get(transferId);
+    if (transfer && !transfer.paused) {
+      this.sendPause(transfer.senderId, transferId);
+      this.pauseIncoming(transferId, transfer);
+    }
+  }
+
+  public resumeTransfer(transferId: string): void {
+    const download = this.swarmDownloads.get(transferId);
+    if (download?.paused) {
+      download.paused = false;
+      download.meter.restart();
+      this.emit('fileTransferProgress', { id: transferId, status: 'transferring' });
+      this.requestSwarmRanges(download);
+      return;
+    }
+
+    const outgoing = this.outgoingTransfers.get(transferId);
+    if (outgoing?.paused) {
+      // Treat the pause like an interruption: ask the receiver what it still needs
+      outgoing.paused = false;
+      outgoing.meter.restart();
+      outgoing.interrupted = true;
+      outgoing.resumeRequestedAt = Date.now();
+      this.requestResume(outgoing, true);
+      this.emit('fileTransferProgress', { id: transferId, status: 'transferring' });
+      outgoing.wake?.();
+      return;
+    }
+
+    const transfer = this.activeTransfers.get(transferId);
+    if (transfer?.paused) {
+      this.unpauseIncoming(transferId, transfer);
+      transfer.decrypting.then(() => {
+        if (!transfer.failed) {
+          this.sendMissingChunks(transferId, transfer, true);
+        }
+      });
+    }
   }
 
   public getConnectionStatus(): ConnectionStatus {
     return this.connectionStatus;
   }
 
+  public async saveGroupAsFolder(groupId: string): Promise<void> {
+    const entries = this.getGroupFiles(groupId);
+    if (!entries) return;
+
+    try {
+      await saveFilesToDirectory(entries);
+      toast.success('Folder saved');
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      console.error('Failed to save folder:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save folder');
+    }
+  }
+
+  public async saveGroupAsZip(groupId: string): Promise<void> {
+    const entries = this.getGroupFiles(groupId);
+    if (!entries) return;
+
+    try {
+      const zip = await createZip(entries);
+      this.triggerDownload(zip, `${this.incomingGroups.get(groupId)!.name}.zip`);
+    } catch (error) {
+      console.error('Failed to create zip:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create zip');
+    }
+  }
+
+  // Asks the relay for a short code that maps to our peer id for a while
+  public async createPairingCode(): Promise<PairingCode> {
+    const reply = await this.relayRequest({ type: 'pairing-code-request' });
+    if (typeof reply.code !== 'string' || typeof reply.expiresAt !== 'number') {
+      throw new Error('The relay sent an invalid pairing code');
+    }
+    return { code: reply.code, expiresAt: reply.expiresAt };
+  }
+
+  public async resolvePairingCode(code: string): Promise<string> {
+    const reply = await this.relayRequest({
+      type: 'pairing-code-resolve',
+      code: normalizePairingCode(code)
+    });
+    if (typeof reply.peerId !== 'string') {
+      throw new Error('The relay sent an invalid peer ID');
+    }
+    return reply.peerId;
+  }
+
+  // Accepts a pairing code or a full peer id, as typed or taken from a link
+  public async connectWithCode(codeOrPeerId: string): Promise<boolean> {
+    const input = codeOrPeerId.trim();
+    if (!isPairingCode(input)) {
+      return this.connectToPeer(input);
+    }
+
+    toast.loading('Looking up pairing code...', { id: 'connect' });
+    let targetPeerId: string;
+    try {
+      targetPeerId = await this.resolvePairingCode(input);
+    } catch (error) {
+      console.error('Failed to resolve pairing code:', error);
+      this.connectionStatus = 'failed';
+      toast.error(error instanceof Error ? error.message : 'Unknown pairing code', { id: 'connect' });
+      return false;
+    }
+    return this.connectToPeer(targetPeerId);
+  }
+
   public async connectToPeer(targetPeerId: string): Promise<boolean> {
     if (targetPeerId === this.peerId) {
       toast.error("Cannot connect to yourself");
@@ -110,20 +805,23 @@ export class PeerService {
     }
 
     if (this.connections.has(targetPeerId)) {
-      toast.info("Already connected to this peer");
+      toast("Already connected to this peer");
       return true;
     }
 
     this.connectionStatus = 'connecting';
+    this.connectTarget = targetPeerId;
     toast.loading('Connecting to peer...', { id: 'connect' });
 
-    // Send connection request through relay server
-    const success = await this.sendMessage({
-      type: 'connection-request',
-      senderId: this.peerId,
-      targetId: targetPeerId,
-      timestamp: Date.now()
-    });
+    let success: boolean;
+    try {
+      success = await this.sendConnectionRequest(targetPeerId);
+    } catch (error) {
+      console.error('Failed to generate handshake keys:', error);
+      this.connectionStatus = 'failed';
+      toast.error('Failed to prepare secure connection', { id: 'connect' });
+      return false;
+    }
 
     if (!success) {
       this.connectionStatus = 'failed';
@@ -155,31 +853,150 @@ export class PeerService {
     });
   }
 
-  public acceptConnection(peerId: string): void {
-    if (!this.pendingConnections.has(peerId)) {
+  // Ephemeral ECDH key pair for this handshake; only the public half is sent,
+  // signed with our identity key
+  private async sendConnectionRequest(targetPeerId: string): Promise<boolean> {
+    if (!this.identity) return false;
+
+    const keyPair = await Encryption.generateKeyPair();
+    const publicKey = await Encryption.exportPublicKey(keyPair.publicKey);
+    const signature = await this.identity.signHandshake(targetPeerId, publicKey);
+    this.handshakes.set(targetPeerId, { keyPair, publicKey });
+
+    // Send connection request through relay server
+    return this.sendMessage({
+      type: 'connection-request',
+      senderId: this.peerId,
+      targetId: targetPeerId,
+      payload: { publicKey, identityKey: this.identity.publicKey, signature },
+      timestamp: Date.now()
+    });
+  }
+
+  // The sender's identity key and its fingerprint, if it signed the handshake key
+  private async checkHandshake(message: Message): Promise<string | null> {
+    const { publicKey, identityKey, signature } = message.payload ?? {};
+    if (
+      typeof publicKey !== 'string' ||
+      typeof identityKey !== 'string' ||
+      typeof signature !== 'string' ||
+      !await verifyHandshake(message.senderId, this.peerId, publicKey, identityKey, signature)
+    ) {
+      return null;
+    }
+    return keyFingerprint(identityKey);
+  }
+
+  // The saved contact for a peer, but only while it presents the same key
+  private contactFor(peerId: string, fingerprint: string): Contact | undefined {
+    const contact = this.contacts.get(peerId);
+    if (!contact) return undefined;
+
+    if (contact.fingerprint !== fingerprint) {
+      console.warn('Identity key changed for contact:', peerId);
+      return undefined;
+    }
+    return contact;
+  }
+
+  private storeContact(contact: Contact): void {
+    this.contacts.set(contact.peerId, contact);
+    saveContact(contact).catch((error) => console.warn('Failed to save contact:', error));
+    this.emit('contactsChange', this.getContacts());
+  }
+
+  private touchContact(peerId: string): void {
+    const contact = this.contacts.get(peerId);
+    if (contact) {
+      this.storeContact({ ...contact, lastSeen: Date.now() });
+    }
+  }
+
+  // Trusted contacts that came online before us are waiting for our request;
+  // ones that come online later will send theirs
+  private reconnectContacts(): void {
+    this.contacts.forEach(contact => {
+      if (
+        !contact.trusted ||
+        this.connections.has(contact.peerId) ||
+        this.pendingConnections.has(contact.peerId) ||
+        this.handshakes.has(contact.peerId)
+      ) return;
+
+      this.sendConnectionRequest(contact.peerId).catch((error) => {
+        console.warn('Failed to reconnect to contact:', error);
+      });
+    });
+  }
+
+  public async acceptConnection(peerId: string, verified = false): Promise<void> {
+    const request = this.pendingConnections.get(peerId);
+    if (!request) {
       return;
     }
 
     this.pendingConnections.delete(peerId);
+
+    let sessionKey: CryptoKey;
+    let signature: string;
+    try {
+      if (!this.identity) throw new Error('Device identity is not loaded');
+      sessionKey = await Encryption.deriveSessionKey(
+        request.keyPair.privateKey,
+        request.peerPublicKey,
+        request.peerPublicKey,
+        request.publicKey
+      );
+      signature = await this.identity.signHandshake(peerId, request.publicKey);
+    } catch (error) {
+      console.error('Key agreement failed:', error);
+      toast.error('Could not establish a secure session');
+      this.sendMessage({
+        type: 'connection-reject',
+        senderId: this.peerId,
+        targetId: peerId,
+        timestamp: Date.now()
+      });
+      return;
+    }
     
+    // Add to connections
+    this.connections.set(peerId, {
+      id: peerId,
+      connected: true,
+      mode: 'relay',
+      lastActivity: Date.now(),
+      sessionKey,
+      safetyCode: request.safetyCode,
+      verified,
+      fingerprint: request.fingerprint,
+      link: new LinkEstimator()
+    });
+
     // Send acceptance message
     this.sendMessage({
       type: 'connection-accept',
       senderId: this.peerId,
       targetId: peerId,
+      payload: { publicKey: request.publicKey, identityKey: this.identity.publicKey, signature },
       timestamp: Date.now()
     });
 
-    // Add to connections
-    this.connections.set(peerId, {
-      id: peerId,
-      connected: true,
-      mode: 'relay',
-      lastActivity: Date.now()
+    const contact = this.contactFor(peerId, request.fingerprint);
+    toast.success(contact ? `Connected to ${contact.alias}` : 'Connection accepted');
+    this.touchContact(peerId);
+    this.emit('connection', {
+      peerId,
+      safetyCode: request.safetyCode,
+      verified,
+      fingerprint: request.fingerprint,
+      autoAccept: this.autoAcceptPeers.has(peerId)
     });
 
-    toast.success('Connection accepted');
-    this.emit('connection', { peerId });
+    // Start anything queued for this peer
+    this.scheduler.pump(peerId);
+    this.announceSeeds(peerId);
+    this.probeLink(peerId);
   }
 
   public rejectConnection(peerId: string): void {
@@ -213,130 +1030,259 @@ export class PeerService {
       timestamp: Date.now()
     });
 
-    this.connections.delete(peerId);
+    this.dropPeer(peerId);
     toast.success('Disconnected from peer');
-    this.emit('disconnection', { peerId });
   }
 
-  public async sendFile(file: File, targetPeerId: string): Promise<boolean> {
-    if (!this.connections.has(targetPeerId)) {
+  // Sends several files, or a folder, as one group described by a manifest
+  public async sendFiles(selected: SelectedFile[], targetPeerId: string): Promise<boolean> {
+    if (selected.length === 1 && !selected[0].path.includes('/')) {
+      return this.sendFile(selected[0].file, targetPeerId);
+    }
+
+    const connection = this.connections.get(targetPeerId);
+    if (!connection) {
       toast.error('Not connected to peer');
       return false;
     }
+    if (selected.length === 0) {
+      return false;
+    }
 
-    const transferId = nanoid();
-    try {
-      toast.loading(`Preparing ${file.name} for transfer...`, { id: transferId });
+    return await this.queueGroup(selected, targetPeerId) === 'completed';
+  }
 
-      // Create file metadata
-      const fileMetadata = {
-        id: transferId,
-        name: file.name,
-        size: file.size,
-        type: file.type
-      };
+  private async queueGroup(
+    selected: SelectedFile[],
+    targetPeerId: string,
+    groupId = nanoid()
+  ): Promise<TransferOutcome> {
+    const entries: ManifestEntry[] = selected.map(({ file, path }) => ({
+      transferId: nanoid(),
+      path,
+      size: file.size,
+      type: file.type
+    }));
 
-      // Notify about transfer start
-      this.emit('fileTransferStart', {
-        ...fileMetadata,
-        progress: 0,
-        status: 'transferring'
-      });
+    // Name the group after its folder when everything shares one
+    const roots = new Set(entries.map(entry => entry.path.split('/')[0]));
+    const rootName = roots.values().next().value;
+    const name = roots.size === 1 && entries.every(entry => entry.path.includes('/')) && rootName
+      ? rootName
+      : `${entries.length} files`;
+    const size = entries.reduce((total, entry) => total + entry.size, 0);
 
-      // Send file start message
-      const startSuccess = await this.sendMessage({
-        type: 'file-start',
-        senderId: this.peerId,
-        targetId: targetPeerId,
-        payload: fileMetadata,
-        timestamp: Date.now()
-      });
+    this.emit('transferGroupStart', {
+      id: groupId,
+      name,
+      fileCount: entries.length,
+      size,
+      direction: 'send',
+      status: 'queued',
+      peerId: targetPeerId
+    });
 
-      if (!startSuccess) {
-        throw new Error('Failed to initiate file transfer');
+    this.queuedSends.set(groupId, { id: groupId, peerId: targetPeerId, files: selected, position: -1 });
+    return await this.scheduler.enqueue(
+      targetPeerId,
+      groupId,
+      () => this.transferGroup(targetPeerId, groupId, name, selected, entries),
+      () => {
+        this.emit('transferGroupComplete', { id: groupId, status: 'cancelled' });
+        return 'cancelled';
       }
+    ).catch((): TransferOutcome => {
+      this.emit('transferGroupComplete', { id: groupId, status: 'error' });
+      return 'error';
+    });
+  }
 
-      // Read and send file in chunks
-      const reader = new FileReader();
-      const chunkSize = CHUNK_SIZE;
-      const totalChunks = Math.ceil(file.size / chunkSize);
-      let currentChunk = 0;
+  public async sendFile(file: File, targetPeerId: string): Promise<boolean> {
+    if (!this.connections.has(targetPeerId)) {
+      toast.error('Not connected to peer');
+      return false;
+    }
 
-      const readNextChunk = () => {
-        const start = currentChunk * chunkSize;
-        const end = Math.min(start + chunkSize, file.size);
-        const blob = file.slice(start, end);
-        reader.readAsArrayBuffer(blob);
-      };
+    return await this.queueFile(file, targetPeerId) === 'completed';
+  }
 
-      reader.onload = async (e) => {
-        if (!e.target?.result) return;
+  // Sends one file to several peers, reading and encrypting each chunk once
+  public async broadcastFile(file: File, targetPeerIds: string[]): Promise<boolean> {
+    const recipients = Array.from(new Set(targetPeerIds)).filter(id => this.connections.has(id));
+    if (recipients.length === 0) {
+      toast.error('Not connected to peer');
+      return false;
+    }
+    if (recipients.length === 1) {
+      return this.sendFile(file, recipients[0]);
+    }
 
-        const chunk = e.target.result;
-        const chunkSuccess = await this.sendMessage({
-          type: 'file-chunk',
-          senderId: this.peerId,
-          targetId: targetPeerId,
-          payload: {
-            transferId,
-            chunkIndex: currentChunk,
-            totalChunks,
-            chunk: Array.from(new Uint8Array(chunk as ArrayBuffer))
-          },
-          timestamp: Date.now()
-        });
+    const broadcastId = nanoid();
+    let source: ChunkSource;
+    try {
+      const contentKey = await Encryption.generateContentKey();
+      // One size has to suit every recipient's link
+      const chunkSize = Math.min(...recipients.map(peerId => this.chooseChunkSize(peerId)));
+      source = new ChunkSource(file, contentKey, broadcastId, chunkSize, {
+        recipients,
+        compress: await shouldCompress(file)
+      });
+    } catch (error) {
+      console.error('Failed to prepare broadcast:', error);
+      toast.error(`Failed to send ${file.name}`);
+      return false;
+    }
 
-        if (!chunkSuccess) {
-          throw new Error(`Failed to send chunk ${currentChunk}`);
-        }
+    // The parent row; each recipient gets its own child transfer under it
+    this.emit('transferGroupStart', {
+      id: broadcastId,
+      kind: 'broadcast',
+      name: file.name,
+      fileCount: recipients.length,
+      size: file.size,
+      direction: 'send',
+      status: 'transferring'
+    });
 
-        const progress = ((currentChunk + 1) / totalChunks) * 100;
-        this.emit('fileTransferProgress', {
-          id: transferId,
-          progress,
-          status: 'transferring'
-        });
+    const outcomes = await Promise.all(recipients.map(peerId =>
+      this.queueFile(file, peerId, { broadcastId, source })
+    ));
 
-        currentChunk++;
-        if (currentChunk < totalChunks) {
-          setTimeout(readNextChunk, 10); // Add small delay between chunks
-        } else {
-          // Send file complete message
-          await this.sendMessage({
-            type: 'file-complete',
-            senderId: this.peerId,
-            targetId: targetPeerId,
-            payload: { transferId },
-            timestamp: Date.now()
-          });
+    const delivered = outcomes.filter(outcome => outcome === 'completed').length;
+    this.emit('transferGroupComplete', {
+      id: broadcastId,
+      status: delivered === recipients.length
+        ? 'completed'
+        : outcomes.every(outcome => outcome === 'cancelled') ? 'cancelled' : 'error'
+    });
 
-          this.emit('fileTransferComplete', {
-            id: transferId,
-            status: 'completed'
-          });
-          
-          toast.success(`${file.name} sent successfully!`, { id: transferId });
-        }
-      };
+    if (delivered === recipients.length) {
+      toast.success(`${file.name} sent to ${delivered} peers`);
+    } else {
+      toast.error(`${file.name} reached ${delivered} of ${recipients.length} peers`);
+    }
+    return delivered === recipients.length;
+  }
 
-      reader.onerror = (error) => {
-        throw error;
-      };
+  // Fetches a file from every connected peer that advertised it. Call straight
+  // from the click handler: the save picker needs the user gesture
+  public async downloadFromSwarm(contentHash: string): Promise<boolean> {
+    const listing = this.swarmListings.get(contentHash);
+    const downloading = Array.from(this.swarmDownloads.values())
+      .some(state => state.contentHash === contentHash);
+    if (!listing || downloading || this.swarmSeeds.has(contentHash)) {
+      return false;
+    }
+
+    const id = nanoid();
+    const sinkReady = createFileSink(id, listing.name, listing.type);
+    const state: SwarmDownloadState = {
+      id,
+      contentHash,
+      name: listing.name,
+      size: listing.size,
+      type: listing.type,
+      chunkHashes: [],
+      download: new SwarmDownload(Math.ceil(listing.size / SWARM_CHUNK_SIZE)),
+      writing: Promise.resolve(),
+      receivedBytes: 0,
+      meter: new RateMeter(listing.size),
+      ready: false,
+      failed: false,
+      paused: false
+    };
+    this.swarmDownloads.set(id, state);
+    this.emitSwarmFiles();
+
+    this.emit('fileTransferStart', {
+      id,
+      name: listing.name,
+      size: listing.size,
+      type: listing.type,
+      progress: 0,
+      status: 'pending',
+      direction: 'receive',
+      sources: listing.holders.size
+    });
+    toast.loading(`Fetching ${listing.name} from ${listing.holders.size} peer(s)...`, { id });
+
+    try {
+      state.sink = await sinkReady;
+      state.chunkHashes = await this.fetchSwarmManifest(listing);
+    } catch (error) {
+      console.error('Failed to start swarm download:', error);
+      this.failSwarmDownload(id, error instanceof Error ? error.message : 'Could not start the download');
+      return false;
+    }
+
+    // Cancelled while the manifest was loading
+    if (state.failed) {
+      state.sink.abort().catch(() => {});
+      return false;
+    }
 
-      readNextChunk();
+    state.ready = true;
+    this.emit('fileTransferProgress', { id, status: 'transferring' });
+
+    if (state.download.complete) {
+      await this.finishSwarmDownload(state);
       return true;
+    }
+
+    state.watchdog = window.setInterval(() => this.checkSwarmSources(state), SWARM_STALL_TIMEOUT / 3);
+    this.requestSwarmRanges(state);
+    return true;
+  }
+
+  // Offers a finished file to every connected peer for multi-source
+  // downloads. Nothing about a file is advertised until this is called.
+  public async shareToSwarm(transferId: string): Promise<boolean> {
+    const held = this.heldFiles.get(transferId);
+    if (!held) return false;
+
+    clearTimeout(held.expiryTimer);
+    this.heldFiles.delete(transferId);
+    const toastId = `share-${transferId}`;
+    toast.loading(`Preparing ${held.name} for sharing...`, { id: toastId });
+
+    let chunkHashes: Uint8Array[];
+    try {
+      chunkHashes = await hashSwarmChunks(held.file);
     } catch (error) {
-      console.error('File transfer failed:', error);
-      toast.error('Failed to send file', { id: transferId });
-      
-      this.emit('fileTransferError', {
-        id: transferId,
-        status: 'error',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
-      
+      console.error('Failed to hash file for sharing:', error);
+      toast.error(`Could not share ${held.name}`, { id: toastId });
+      this.emit('fileTransferProgress', { id: transferId, swarm: undefined });
+      this.releaseHeldFile(held);
       return false;
     }
+
+    this.addSeed({ ...held, contentHash: await rootHash(chunkHashes), chunkHashes, transferIds: [transferId] });
+    toast.success(`${held.name} is shared with connected peers`, { id: toastId });
+    return true;
+  }
+
+  // Moves a queued transfer in front of another queued for the same peer,
+  // or to the back of its queue when `beforeId` is null
+  public moveQueuedTransfer(transferId: string, beforeId: string | null): void {
+    this.scheduler.move(transferId, beforeId);
+  }
+
+  public getMaxConcurrentTransfers(): number {
+    return this.scheduler.concurrency;
+  }
+
+  public setMaxConcurrentTransfers(maxConcurrent: number): void {
+    this.scheduler.setConcurrency(maxConcurrent);
+  }
+
+  public getLivenessThresholds(): LivenessThresholds {
+    return this.liveness.thresholds;
+  }
+
+  // Saved as adjusted, so the next load starts from the same values
+  public setLivenessThresholds(thresholds: Partial<LivenessThresholds>): void {
+    this.liveness.setThresholds(thresholds);
+    saveLivenessThresholds(this.liveness.thresholds);
   }
 
   public on(event: string, callback: (data: any) => void): void {
@@ -352,6 +1298,9 @@ export class PeerService {
 
   // Private methods
   private emit(event: string, data: any): void {
+    // Transfer events also feed the persistent history
+    this.history.observe(event, data);
+
     this.listeners.get(event)?.forEach(callback => {
       try {
         callback(data);
@@ -361,329 +1310,2850 @@ export class PeerService {
     });
   }
 
-  private async initializeEncryption(): Promise<void> {
-    try {
-      const key = await window.crypto.subtle.generateKey(
-        {
-          name: 'AES-GCM',
-          length: 256,
-        },
-        true,
-        ['encrypt', 'decrypt']
-      );
-      this.encryptionKey = key;
-    } catch (error) {
-      console.error('Failed to initialize encryption:', error);
-    }
-  }
+  private async queueFile(
+    file: File,
+    targetPeerId: string,
+    broadcast?: { broadcastId: string; source: ChunkSource },
+    transferId = nanoid()
+  ): Promise<TransferOutcome> {
+    this.emit('fileTransferStart', {
+      id: transferId,
+      name: file.name,
+      size: file.size,
+      type: file.type,
+      progress: 0,
+      status: 'queued',
+      direction: 'send',
+      peerId: targetPeerId,
+      peerVerified: this.connections.get(targetPeerId)?.verified ?? false,
+      broadcastId: broadcast?.broadcastId
+    });
 
-  private connectToRelayServer(): void {
-    try {
-      if (this.websocket) {
-        this.websocket.close();
+    // A broadcast recipient comes back from a reload as a plain send
+    this.queuedSends.set(transferId, {
+      id: transferId,
+      peerId: targetPeerId,
+      files: [{ file, path: file.name }],
+      position: -1
+    });
+    const outcome = await this.scheduler.enqueue(
+      targetPeerId,
+      transferId,
+      () => this.transferFile(file, targetPeerId, { transferId, source: broadcast?.source }),
+      () => {
+        this.emit('fileTransferError', { id: transferId, status: 'cancelled', error: 'Cancelled' });
+        return 'cancelled';
       }
+    ).catch((error): TransferOutcome => {
+      this.emit('fileTransferError', {
+        id: transferId,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return 'error';
+    });
 
-      console.log('Connecting to relay server:', RELAY_SERVER_URL);
-      this.websocket = new WebSocket(RELAY_SERVER_URL);
-      
-      this.websocket.onopen = () => {
-        console.log('Connected to relay server');
-        this.reconnectAttempts = 0;
-        
-        // Register with the relay server
-        this.websocket?.send(JSON.stringify({
-          type: 'register',
-          peerId: this.peerId
-        }));
-        
-        // Start ping interval to keep connection alive
-        this.startPingInterval();
-        
-        // Process any queued messages
-        this.processMessageQueue();
-      };
-      
-      this.websocket.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data);
-          this.handleIncomingMessage(message);
-        } catch (error) {
-          console.error('Failed to parse message:', error);
-        }
-      };
-      
-      this.websocket.onclose = () => {
-        console.log('Disconnected from relay server');
-        this.stopPingInterval();
-        
-        // Attempt to reconnect
-        if (this.reconnectAttempts < RECONNECT_ATTEMPTS) {
-          this.reconnectAttempts++;
-          setTimeout(() => this.connectToRelayServer(), 1000 * this.reconnectAttempts);
-        }
-      };
-      
-      this.websocket.onerror = (error) => {
-        console.error('WebSocket error:', error);
-      };
-    } catch (error) {
-      console.error('Failed to connect to relay server:', error);
-    }
+    // Whatever happened, this recipient no longer needs the shared chunks
+    broadcast?.source.leave(targetPeerId);
+    return outcome;
   }
 
-  private startPingInterval(): void {
-    this.pingInterval = window.setInterval(() => {
-      if (this.websocket?.readyState === WebSocket.OPEN) {
-        this.websocket.send(JSON.stringify({
-          type: 'ping',
-          peerId: this.peerId,
-          timestamp: Date.now()
-        }));
-      }
-    }, 30000) as unknown as number;
-  }
+  // Mirrors a peer's queue into IndexedDB: sends that have started or were
+  // cancelled are forgotten, and the rest keep their place for next time
+  private persistQueue(peerId: string, queued: string[]): void {
+    this.queuedSends.forEach((send, id) => {
+      if (send.peerId !== peerId || queued.includes(id)) return;
+      this.queuedSends.delete(id);
+      deleteQueuedSend(id).catch((error) => console.warn('Failed to forget a queued send:', error));
+    });
 
-  private stopPingInterval(): void {
-    if (this.pingInterval !== null) {
-      clearInterval(this.pingInterval);
-      this.pingInterval = null;
-    }
+    queued.forEach((id, position) => {
+      const send = this.queuedSends.get(id);
+      if (!send || send.position === position) return;
+      send.position = position;
+      saveQueuedSend(send).catch((error) => console.warn('Failed to save a queued send:', error));
+    });
   }
 
-  private async sendMessage(message: Message): Promise<boolean> {
-    // If not connected to relay server, queue the message
-    if (!this.websocket || this.websocket.readyState !== WebSocket.OPEN) {
-      this.queueMessage(message);
-      return false;
-    }
-
+  // Sends queued in an earlier session go back in the queue, and start once
+  // their peer connects
+  private async restoreQueuedSends(): Promise<void> {
+    let sends: QueuedSend[];
     try {
-      this.websocket.send(JSON.stringify(message));
-      return true;
+      sends = await loadQueuedSends();
     } catch (error) {
-      console.error('Failed to send message:', error);
-      this.queueMessage(message);
-      return false;
+      console.warn('Failed to load queued sends:', error);
+      return;
     }
+
+    sends.forEach(({ id, peerId, files }) => {
+      if (files.length === 1 && !files[0].path.includes('/')) {
+        this.queueFile(files[0].file, peerId, undefined, id);
+      } else if (files.length > 0) {
+        this.queueGroup(files, peerId, id);
+      } else {
+        deleteQueuedSend(id).catch((error) => console.warn('Failed to forget a queued send:', error));
+      }
+    });
   }
 
-  private queueMessage(message: Message): void {
-    const targetId = message.targetId;
-    if (!targetId) return;
-    
-    if (!this.messageQueue.has(targetId)) {
-      this.messageQueue.set(targetId, []);
+  // Offers a group as a whole, then sends its files one after another
+  private async transferGroup(
+    targetPeerId: string,
+    groupId: string,
+    name: string,
+    selected: SelectedFile[],
+    entries: ManifestEntry[]
+  ): Promise<TransferOutcome> {
+    if (!this.connections.has(targetPeerId)) {
+      this.emit('transferGroupComplete', { id: groupId, status: 'error' });
+      toast.error(`Failed to send ${name}`, { id: groupId });
+      return 'error';
     }
-    
-    this.messageQueue.get(targetId)?.push(message);
-  }
 
-  private processMessageQueue(): void {
-    if (!this.websocket || this.websocket.readyState !== WebSocket.OPEN) {
-      return;
+    this.emit('transferGroupProgress', { id: groupId, status: 'pending' });
+    const size = entries.reduce((total, entry) => total + entry.size, 0);
+
+    toast.loading(`Waiting for the peer to accept ${name}...`, { id: groupId });
+    const answer = await this.offerFiles(targetPeerId, {
+      id: groupId,
+      name,
+      size,
+      type: '',
+      fileCount: entries.length
+    });
+
+    if (answer === 'cancelled') {
+      this.emit('transferGroupComplete', { id: groupId, status: 'cancelled' });
+      toast.dismiss(groupId);
+      return 'cancelled';
     }
-    
-    this.messageQueue.forEach((messages, targetId) => {
-      messages.forEach(message => {
-        try {
-          this.websocket?.send(JSON.stringify(message));
-        } catch (error) {
-          console.error('Failed to send queued message:', error);
-        }
+    if (answer !== 'accepted') {
+      this.emit('transferGroupComplete', {
+        id: groupId,
+        status: answer === 'declined' ? 'declined' : 'error'
       });
-      
-      this.messageQueue.delete(targetId);
+      toast.error(answer === 'declined' ? `${name} was declined` : `No answer for ${name}`, { id: groupId });
+      return answer === 'declined' ? 'declined' : 'error';
+    }
+
+    toast.loading(`Sending ${name}...`, { id: groupId });
+    this.emit('transferGroupProgress', { id: groupId, status: 'transferring' });
+
+    const manifestSent = await this.sendToPeer({
+      type: 'manifest',
+      senderId: this.peerId,
+      targetId: targetPeerId,
+      payload: { id: groupId, name, files: entries },
+      timestamp: Date.now()
     });
+
+    let outcome: TransferOutcome = manifestSent ? 'completed' : 'error';
+    for (let i = 0; outcome === 'completed' && i < selected.length; i++) {
+      outcome = await this.transferFile(selected[i].file, targetPeerId, {
+        transferId: entries[i].transferId,
+        groupId,
+        path: entries[i].path
+      });
+    }
+
+    this.emit('transferGroupComplete', { id: groupId, status: outcome });
+
+    if (outcome === 'completed') {
+      toast.success(`${name} sent successfully!`, { id: groupId });
+    } else if (outcome === 'cancelled') {
+      toast(`${name} was cancelled`, { id: groupId });
+    } else {
+      toast.error(`Failed to send ${name}`, { id: groupId });
+    }
+    return outcome;
   }
 
-  private handleIncomingMessage(message: Message): void {
-    if (!message.type) return;
+  // Offers (unless part of a group), streams and verifies one file
+  private async transferFile(
+    file: File,
+    targetPeerId: string,
+    options: { transferId: string; groupId?: string; path?: string; source?: ChunkSource }
+  ): Promise<TransferOutcome> {
+    const { transferId } = options;
+    // Files in a group are reported once for the whole group
+    const notify = !options.groupId;
 
-    console.log('Received message:', message.type, message); // Add logging
-    
-    // Update last activity for the connection
-    if (message.senderId && this.connections.has(message.senderId)) {
-      const connection = this.connections.get(message.senderId)!;
-      connection.lastActivity = Date.now();
-      this.connections.set(message.senderId, connection);
+    const connection = this.connections.get(targetPeerId);
+    if (!connection) {
+      this.emit('fileTransferError', {
+        id: transferId,
+        status: 'error',
+        error: 'Not connected to peer'
+      });
+      toast.error(`Failed to send ${file.name}`, { id: transferId });
+      return 'error';
     }
-    
-    switch (message.type) {
-      case 'connection-request':
-        if (message.senderId) {
-          console.log('Received connection request from:', message.senderId);
-          // Add to pending connections if not already connected
-          if (!this.connections.has(message.senderId)) {
-            this.pendingConnections.add(message.senderId);
-            // Notify user
-            this.emit('connectionRequest', { peerId: message.senderId });
-            toast.success('New connection request received!');
+
+    try {
+      // Chunks are encrypted with the key agreed during the handshake, or with
+      // a broadcast's content key, which travels sealed under that session key
+      const source = options.source
+        ?? new ChunkSource(file, connection.sessionKey, transferId, this.chooseChunkSize(targetPeerId), {
+          compress: await shouldCompress(file)
+        });
+      const contentKey = options.source
+        ? await Encryption.wrapContentKey(source.key, connection.sessionKey, transferId)
+        : undefined;
+
+      // Create file metadata
+      const fileMetadata = {
+        id: transferId,
+        name: file.name,
+        size: file.size,
+        type: file.type,
+        groupId: options.groupId,
+        path: options.path,
+        contentId: source.contentId,
+        contentKey,
+        chunkSize: source.chunkSize,
+        // Chunks flagged as compressed are inflated by the receiver
+        compression: source.compress ? COMPRESSION_FORMAT : undefined
+      };
+
+      // Lone files were announced when they were queued
+      if (notify) {
+        this.emit('fileTransferProgress', {
+          id: transferId,
+          encryptionProgress: 0,
+          status: 'pending'
+        });
+      } else {
+        this.emit('fileTransferStart', {
+          ...fileMetadata,
+          progress: 0,
+          encryptionProgress: 0,
+          status: 'transferring',
+          direction: 'send',
+          peerId: targetPeerId,
+          peerVerified: connection.verified
+        });
+      }
+
+      // A group was already offered as a whole
+      if (notify) {
+        toast.loading(`Waiting for the peer to accept ${file.name}...`, { id: transferId });
+        const answer = await this.offerFiles(targetPeerId, {
+          id: transferId,
+          name: file.name,
+          size: file.size,
+          type: file.type,
+          fileCount: 1
+        });
+
+        if (answer === 'declined' || answer === 'cancelled') {
+          this.emit('fileTransferError', {
+            id: transferId,
+            status: answer,
+            error: answer === 'declined' ? 'Declined by the peer' : 'Cancelled'
+          });
+          if (answer === 'declined') {
+            toast.error(`${file.name} was declined`, { id: transferId });
+          } else {
+            toast.dismiss(transferId);
           }
+          return answer;
+        }
+        if (answer === 'unanswered') {
+          throw new Error('The peer did not answer the offer');
+        }
+
+        toast.loading(`Sending ${file.name}...`, { id: transferId });
+        this.emit('fileTransferProgress', { id: transferId, status: 'transferring' });
+      }
+
+      const outgoing: OutgoingTransfer = {
+        id: transferId,
+        targetPeerId,
+        source,
+        totalChunks: source.totalChunks,
+        nextChunk: 0,
+        resendQueue: [],
+        interrupted: false,
+        paused: false,
+        cancelled: false,
+        window: new SendWindow(source.chunkSize),
+        payloadBytes: 0,
+        wireBytes: 0,
+        meter: new RateMeter(file.size)
+      };
+      // Registered before file-start so a cancel from either side always finds it
+      this.outgoingTransfers.set(transferId, outgoing);
+
+      // Send file start message
+      const startSuccess = await this.sendToPeer({
+        type: 'file-start',
+        senderId: this.peerId,
+        targetId: targetPeerId,
+        payload: fileMetadata,
+        timestamp: Date.now()
+      });
+
+      if (!startSuccess) {
+        throw new Error('Failed to initiate file transfer');
+      }
+
+      await this.transmitFile(outgoing);
+
+      // Every byte is acknowledged, so the receiver can assemble and verify the file
+      const contentHash = await rootHash(source.hashes);
+      await this.sendToPeer({
+        type: 'file-complete',
+        senderId: this.peerId,
+        targetId: targetPeerId,
+        payload: {
+          transferId,
+          // Sealed, so the relay cannot match it against known files
+          sealed: await this.sealFor(targetPeerId, `file-complete:${transferId}`, contentHash)
+        },
+        timestamp: Date.now()
+      });
+      this.outgoingTransfers.delete(transferId);
+
+      this.emit('fileTransferComplete', {
+        id: transferId,
+        status: 'completed',
+        hash: contentHash
+      });
+
+      // The user may share it with the swarm later
+      if (notify) {
+        this.holdFile(transferId, { file, name: file.name, type: file.type });
+      }
+      
+      if (notify) {
+        toast.success(`${file.name} sent successfully!`, { id: transferId });
+      }
+      return 'completed';
+    } catch (error) {
+      const cancelled = this.outgoingTransfers.get(transferId)?.cancelled ?? false;
+      // Drops the file reference and chunk hashes
+      this.outgoingTransfers.delete(transferId);
+
+      if (cancelled) {
+        this.emit('fileTransferError', {
+          id: transferId,
+          status: 'cancelled',
+          error: 'Cancelled'
+        });
+        toast(`${file.name} was cancelled`, { id: transferId });
+        return 'cancelled';
+      }
+
+      console.error('File transfer failed:', error);
+      toast.error(`Failed to send ${file.name}`, { id: transferId });
+      
+      this.emit('fileTransferError', {
+        id: transferId,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      
+      return 'error';
+    }
+  }
+
+  // Resolves once the receiver accepts or declines, or the offer lapses
+  private async offerFiles(targetPeerId: string, offer: FileOfferDetails): Promise<OfferAnswer> {
+    const answer = new Promise<OfferAnswer>((resolve) => {
+      const timer = window.setTimeout(() => settle('unanswered'), OFFER_TIMEOUT);
+      const settle = (result: OfferAnswer) => {
+        clearTimeout(timer);
+        this.outgoingOffers.delete(offer.id);
+        resolve(result);
+      };
+      this.outgoingOffers.set(offer.id, { targetPeerId, settle });
+    });
+
+    const sent = await this.sendToPeer({
+      type: 'file-offer',
+      senderId: this.peerId,
+      targetId: targetPeerId,
+      payload: offer,
+      timestamp: Date.now()
+    });
+    if (!sent) {
+      this.outgoingOffers.get(offer.id)?.settle('unanswered');
+    }
+
+    return answer;
+  }
+
+  private acceptOffer(offer: IncomingOffer, openSink: boolean): void {
+    const accepted: AcceptedOffer = {
+      senderId: offer.senderId,
+      // Forget the acceptance if the sender never follows up
+      timer: window.setTimeout(() => this.releaseAcceptedOffer(offer.id), OFFER_TIMEOUT)
+    };
+
+    if (openSink && offer.fileCount === 1) {
+      accepted.sink = createFileSink(offer.id, offer.name, offer.type);
+    }
+    this.acceptedOffers.set(offer.id, accepted);
+
+    this.sendToPeer({
+      type: 'file-accept',
+      senderId: this.peerId,
+      targetId: offer.senderId,
+      payload: { id: offer.id },
+      timestamp: Date.now()
+    });
+  }
+
+  // Takes an accepted offer for its transfer; null if this peer never had one accepted
+  private claimAcceptedOffer(offerId: string, senderId: string): AcceptedOffer | null {
+    const accepted = this.acceptedOffers.get(offerId);
+    if (!accepted || accepted.senderId !== senderId) return null;
+
+    clearTimeout(accepted.timer);
+    this.acceptedOffers.delete(offerId);
+    return accepted;
+  }
+
+  private releaseAcceptedOffer(offerId: string): void {
+    const accepted = this.acceptedOffers.get(offerId);
+    if (!accepted) return;
+
+    clearTimeout(accepted.timer);
+    this.acceptedOffers.delete(offerId);
+    accepted.sink?.then(sink => sink.abort()).catch(() => {});
+  }
+
+  // Offers in either direction die with the connection
+  private dropOffers(peerId: string): void {
+    this.outgoingOffers.forEach((offer) => {
+      if (offer.targetPeerId === peerId) {
+        offer.settle('unanswered');
+      }
+    });
+
+    this.incomingOffers.forEach((offer, offerId) => {
+      if (offer.senderId === peerId) {
+        clearTimeout(offer.timer);
+        this.incomingOffers.delete(offerId);
+        this.emit('fileOfferWithdrawn', { id: offerId });
+      }
+    });
+
+    this.acceptedOffers.forEach((accepted, offerId) => {
+      if (accepted.senderId === peerId) {
+        this.releaseAcceptedOffer(offerId);
+      }
+    });
+  }
+
+  private connectToRelayServer(): void {
+    if (this.relayReconnectTimer !== null) {
+      clearTimeout(this.relayReconnectTimer);
+      this.relayReconnectTimer = null;
+    }
+
+    // Detach the old socket first, so its close does not schedule a reconnect
+    const previous = this.websocket;
+    if (previous) {
+      previous.onclose = null;
+      previous.onmessage = null;
+      previous.close();
+      this.handleRelayClosed();
+    }
+
+    const url = this.relayConfig.urls[this.relayIndex] ?? this.relayConfig.urls[0];
+    this.setRelayHealth({ url, state: 'connecting', latency: undefined });
+
+    try {
+      console.log('Connecting to relay server:', url);
+      this.websocket = new WebSocket(url);
+      this.websocket.binaryType = 'arraybuffer';
+      
+      this.relayRegistered = false;
+
+      // Registration waits for the relay's challenge
+      this.websocket.onopen = () => {
+        console.log('Connected to relay server');
+      };
+      
+      this.websocket.onmessage = (event) => {
+        if (event.data instanceof ArrayBuffer) {
+          const { peerId, frame } = unwrapRelayEnvelope(event.data);
+          this.handleIncomingFrame(peerId, frame);
+          return;
+        }
+
+        try {
+          const message = JSON.parse(event.data);
+          if (!this.handleRelayMessage(message)) {
+            this.handleIncomingMessage(message);
+          }
+        } catch (error) {
+          console.error('Failed to parse message:', error);
+        }
+      };
+      
+      this.websocket.onclose = () => {
+        console.log('Disconnected from relay server');
+        const wasRegistered = this.relayRegistered;
+        this.handleRelayClosed();
+        this.scheduleRelayReconnect(wasRegistered);
+      };
+      
+      this.websocket.onerror = (error) => {
+        console.error('WebSocket error:', error);
+      };
+    } catch (error) {
+      // A malformed URL throws here rather than closing
+      console.error('Failed to connect to relay server:', error);
+      this.websocket = null;
+      this.scheduleRelayReconnect(false);
+    }
+  }
+
+  private handleRelayClosed(): void {
+    if (this.relayRegistered) {
+      this.relayRegistered = false;
+      this.emit('relayStatusChange', false);
+    }
+    this.stopPingInterval();
+  }
+
+  // A relay we were registered with is retried first; one we never reached
+  // hands over to the next in the list. A full round of failures counts as
+  // one attempt, and after the last we stay offline until asked to reconnect.
+  // Nothing is retried while the session is taken over by another tab.
+  private scheduleRelayReconnect(wasRegistered: boolean): void {
+    if (this.sessionTakenOver) {
+      this.setRelayHealth({ state: 'offline', latency: undefined });
+      return;
+    }
+
+    if (!wasRegistered) {
+      this.relayIndex = (this.relayIndex + 1) % this.relayConfig.urls.length;
+    }
+    const roundFinished = wasRegistered || this.relayIndex === 0;
+    if (roundFinished) {
+      this.reconnectAttempts++;
+    }
+
+    if (this.reconnectAttempts > RECONNECT_ATTEMPTS) {
+      this.setRelayHealth({ state: 'offline', latency: undefined });
+      return;
+    }
+
+    this.setRelayHealth({ state: 'connecting', latency: undefined });
+    const delay = roundFinished ? 1000 * this.reconnectAttempts : RELAY_FALLBACK_DELAY;
+    this.relayReconnectTimer = window.setTimeout(() => this.connectToRelayServer(), delay);
+  }
+
+  private setRelayHealth(changes: Partial<RelayHealth>): void {
+    this.relayHealth = {
+      ...this.relayHealth,
+      ...changes,
+      fallback: this.relayIndex > 0,
+      source: this.relayConfig.source
+    };
+    this.emit('relayHealthChange', this.relayHealth);
+  }
+
+  // Messages from the relay itself rather than forwarded from a peer
+  private handleRelayMessage(message: RelayMessage): boolean {
+    switch (message.type) {
+      case 'challenge':
+        if (typeof message.challenge === 'string') {
+          this.registerWithRelay(message.challenge);
+        }
+        return true;
+      case 'registered':
+        this.handleRegistered();
+        return true;
+      case 'pong':
+        // Peers' pongs carry a sender and are handled with their messages
+        if (message.senderId) return false;
+        if (this.relayPingSentAt !== null) {
+          this.setRelayHealth({ latency: Date.now() - this.relayPingSentAt });
+          this.relayPingSentAt = null;
+        }
+        return true;
+      case 'pairing-code':
+      case 'pairing-code-resolved':
+        this.settleRelayRequest(message);
+        return true;
+      case 'request-sent':
+        if (message.targetId && message.targetId === this.connectTarget && this.connectionStatus === 'connecting') {
+          toast.loading('Waiting for the peer to accept...', { id: 'connect' });
+        }
+        return true;
+      case 'peer-disconnected':
+        if (message.peerId) {
+          this.markPeerOffline(message.peerId);
+        }
+        return true;
+      case 'error':
+        if (!this.settleRelayRequest(message)) {
+          this.handleRelayError(message);
+        }
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private handleRelayError(message: RelayMessage): void {
+    switch (message.error) {
+      case 'peer_not_found':
+        if (message.targetId) {
+          this.handlePeerNotFound(message.targetId, message.originalMessage?.type);
         }
         break;
-      case 'connection-accept':
-        this.handleConnectionAccept(message);
-        break;
-      case 'connection-reject':
-        this.handleConnectionReject(message);
-        break;
-      case 'file-start':
-        this.handleFileStart(message);
-        break;
-      case 'file-chunk':
-        this.handleFileChunk(message);
-        break;
-      case 'file-complete':
-        this.handleFileComplete(message);
-        break;
-      case 'disconnect':
-        this.handleDisconnect(message);
+      case 'duplicate_connection':
+        this.handleSessionTakeover();
         break;
-      case 'ping':
-        // Respond with pong
-        if (message.senderId) {
-          this.sendMessage({
-            type: 'pong',
-            senderId: this.peerId,
-            targetId: message.senderId,
-            timestamp: Date.now()
-          });
+      case 'invalid_registration':
+        toast.error('The relay server did not accept this device\'s identity');
+        break;
+      default:
+        console.warn('Relay server error:', message.error, message.message);
+    }
+  }
+
+  // The relay could not deliver to a peer: either a connection attempt to
+  // someone who is not online, or a peer that has left since
+  private handlePeerNotFound(peerId: string, messageType?: string): void {
+    if (messageType === 'connection-request') {
+      this.handshakes.delete(peerId);
+      if (peerId === this.connectTarget && this.connectionStatus === 'connecting') {
+        this.connectionStatus = 'failed';
+        toast.error('That peer is not online. Check the ID and try again.', { id: 'connect' });
+      }
+      return;
+    }
+
+    // A direct data channel still reaches the peer without the relay
+    if (this.connections.get(peerId)?.mode === 'relay') {
+      this.markPeerOffline(peerId);
+    }
+  }
+
+  // Kept rather than dropped, so transfers can resume if the peer returns
+  private markPeerOffline(peerId: string): void {
+    const connection = this.connections.get(peerId);
+    if (!connection || connection.mode !== 'relay') return;
+
+    this.setConnectionMode(peerId, 'disconnected');
+    const alias = this.contacts.get(peerId)?.alias;
+    toast(`${alias ?? 'A peer'} went offline`, { icon: '⚪' });
+  }
+
+  private markPeerOnline(peerId: string): void {
+    const connection = this.connections.get(peerId);
+    if (!connection || connection.mode !== 'disconnected') return;
+
+    this.setConnectionMode(peerId, connection.dataChannel?.readyState === 'open' ? 'direct' : 'relay');
+    const alias = this.contacts.get(peerId)?.alias;
+    toast(`${alias ?? 'A peer'} is back online`, { icon: '🟢' });
+  }
+
+  // Another tab or window registered our peer id and the relay signed us out.
+  // Peers now reach that session, so ours are closed here
+  private handleSessionTakeover(): void {
+    this.sessionTakenOver = true;
+    Array.from(this.connections.keys()).forEach(peerId => this.dropPeer(peerId));
+    this.pendingConnections.clear();
+    this.handshakes.clear();
+    this.emit('sessionTakeover', true);
+  }
+
+  private relayRequest(request: Record<string, unknown>): Promise<RelayMessage> {
+    const requestId = nanoid();
+    return new Promise((resolve, reject) => {
+      const timeout = window.setTimeout(() => {
+        this.relayRequests.delete(requestId);
+        reject(new Error('The relay server did not respond'));
+      }, RELAY_REQUEST_TIMEOUT);
+      this.relayRequests.set(requestId, { resolve, reject, timeout });
+
+      const message = JSON.stringify({ ...request, requestId });
+      if (this.websocket && this.isRelayReady()) {
+        this.websocket.send(message);
+      } else {
+        this.relayOutbox.push(message);
+      }
+    });
+  }
+
+  private settleRelayRequest(message: RelayMessage): boolean {
+    const request = typeof message.requestId === 'string' ? this.relayRequests.get(message.requestId) : undefined;
+    if (!request) return false;
+
+    this.relayRequests.delete(message.requestId as string);
+    clearTimeout(request.timeout);
+    if (message.type === 'error') {
+      request.reject(new Error(typeof message.message === 'string' ? message.message : 'Relay request failed'));
+    } else {
+      request.resolve(message);
+    }
+    return true;
+  }
+
+  // Proves we hold the key our peer id is derived from
+  private async registerWithRelay(challenge: string): Promise<void> {
+    const websocket = this.websocket;
+    if (!this.identity || !websocket) return;
+
+    try {
+      const signature = await this.identity.signChallenge(challenge);
+      if (websocket.readyState !== WebSocket.OPEN) return;
+
+      websocket.send(JSON.stringify({
+        type: 'register',
+        peerId: this.peerId,
+        publicKey: this.identity.publicKey,
+        signature
+      }));
+    } catch (error) {
+      console.error('Failed to sign relay challenge:', error);
+    }
+  }
+
+  private handleRegistered(): void {
+    console.log('Registered with relay server');
+    this.relayRegistered = true;
+    this.reconnectAttempts = 0;
+    this.emit('relayStatusChange', true);
+    this.setRelayHealth({ state: 'online' });
+    const isReconnect = this.hasConnectedToRelay;
+    this.hasConnectedToRelay = true;
+
+    // Start ping interval to keep connection alive
+    this.startPingInterval();
+
+    // Process any queued messages
+    this.processMessageQueue();
+    this.relayOutbox.splice(0).forEach(message => this.websocket?.send(message));
+
+    // Pick up transfers that were cut off while we were away
+    if (isReconnect) {
+      this.resumeTransfers();
+    }
+    this.reconnectContacts();
+  }
+
+  private isRelayReady(): boolean {
+    return this.relayRegistered && this.websocket?.readyState === WebSocket.OPEN;
+  }
+
+  private startPingInterval(): void {
+    this.stopPingInterval();
+    this.pingRelay();
+    this.pingInterval = window.setInterval(() => this.pingRelay(), RELAY_PING_INTERVAL) as unknown as number;
+  }
+
+  private pingRelay(): void {
+    if (this.websocket?.readyState === WebSocket.OPEN) {
+      this.relayPingSentAt = Date.now();
+      this.websocket.send(JSON.stringify({
+        type: 'ping',
+        peerId: this.peerId,
+        timestamp: this.relayPingSentAt
+      }));
+    }
+  }
+
+  private stopPingInterval(): void {
+    if (this.pingInterval !== null) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+    this.relayPingSentAt = null;
+  }
+
+  // Bytes on every update; speed, ETA and the sparkline whenever the meter samples
+  private measureRate(meter: RateMeter, bytes: number, peerId: string): Partial<FileTransfer> {
+    const mode = this.connections.get(peerId)?.mode === 'direct' ? 'direct' : 'relay';
+    if (!meter.update(bytes, mode)) {
+      return { bytesTransferred: bytes };
+    }
+
+    return {
+      bytesTransferred: bytes,
+      throughput: meter.bytesPerSecond ?? undefined,
+      eta: meter.eta ?? undefined,
+      throughputHistory: meter.history
+    };
+  }
+
+  // Measures the round trip to a peer over whichever path transfers use
+  private probeLink(peerId: string): void {
+    this.sendToPeer({
+      type: 'ping',
+      senderId: this.peerId,
+      targetId: peerId,
+      payload: { probe: Date.now() },
+      timestamp: Date.now()
+    });
+  }
+
+  // Sized from the link measurements, within what both transports can carry:
+  // a transfer that starts direct may finish over the relay
+  private chooseChunkSize(peerId: string): number {
+    const connection = this.connections.get(peerId);
+    if (!connection) return MIN_CHUNK_SIZE;
+
+    const channelLimit = connection.rtc?.sctp?.maxMessageSize || DATA_CHANNEL_MAX_MESSAGE;
+    const limit = Math.min(channelLimit, RELAY_MAX_MESSAGE) - FRAME_OVERHEAD;
+    return connection.link.chunkSize(limit);
+  }
+
+  private async sendMessage(message: Message): Promise<boolean> {
+    // If not registered with the relay server, queue the message
+    if (!this.websocket || !this.isRelayReady()) {
+      this.queueMessage(message);
+      return false;
+    }
+
+    try {
+      this.websocket.send(JSON.stringify(message));
+      return true;
+    } catch (error) {
+      console.error('Failed to send message:', error);
+      this.queueMessage(message);
+      return false;
+    }
+  }
+
+  // Transfer messages prefer the direct data channel and fall back to the relay
+  private async sendToPeer(message: Message): Promise<boolean> {
+    const channel = message.targetId
+      ? this.connections.get(message.targetId)?.dataChannel
+      : undefined;
+
+    if (channel && channel.readyState === 'open') {
+      try {
+        channel.send(JSON.stringify(message));
+        return true;
+      } catch (error) {
+        console.error('Failed to send over data channel, using relay:', error);
+        this.fallbackToRelay(message.targetId!);
+      }
+    }
+
+    return this.sendMessage(message);
+  }
+
+  private getBufferedAmount(peerId: string): number {
+    const channel = this.connections.get(peerId)?.dataChannel;
+    if (channel && channel.readyState === 'open') {
+      return channel.bufferedAmount;
+    }
+    return this.websocket?.bufferedAmount ?? 0;
+  }
+
+  // Blocks until the window has room and the transport buffer has drained
+  private async waitForSendCapacity(outgoing: OutgoingTransfer): Promise<void> {
+    while (
+      !outgoing.window.hasCapacity() ||
+      this.getBufferedAmount(outgoing.targetPeerId) > BUFFER_HIGH_WATER
+    ) {
+      if (!this.connections.has(outgoing.targetPeerId)) {
+        throw new Error('Peer disconnected');
+      }
+      if (outgoing.cancelled) {
+        throw new Error('Transfer cancelled');
+      }
+      if (outgoing.window.inFlight > 0) {
+        this.checkAckStall(outgoing);
+      }
+      await this.waitForWake(outgoing);
+    }
+  }
+
+  // Sends new chunks and re-sends reported gaps until the receiver has acknowledged the whole file
+  private async transmitFile(outgoing: OutgoingTransfer): Promise<void> {
+    const { source, id: transferId, targetPeerId, totalChunks } = outgoing;
+
+    while (outgoing.window.acked < source.file.size) {
+      if (!this.connections.has(targetPeerId)) {
+        throw new Error('Peer disconnected');
+      }
+
+      if (outgoing.cancelled) {
+        throw new Error('Transfer cancelled');
+      }
+
+      if (outgoing.paused) {
+        // No stall checks while paused; resuming re-syncs with the receiver
+        await this.waitForWake(outgoing);
+        continue;
+      }
+
+      if (outgoing.interrupted) {
+        await this.waitForResume(outgoing);
+        continue;
+      }
+
+      const chunkIndex = outgoing.resendQueue.length > 0
+        ? outgoing.resendQueue.shift()!
+        : outgoing.nextChunk < totalChunks
+          ? outgoing.nextChunk++
+          : undefined;
+
+      if (chunkIndex === undefined) {
+        // Everything has been sent once; wait for acks or a resume request
+        this.checkAckStall(outgoing);
+        await this.waitForWake(outgoing);
+        continue;
+      }
+
+      await this.waitForSendCapacity(outgoing);
+
+      // One chunk per turn, so concurrent transfers share the link evenly
+      const releaseTurn = await this.sendTurns.acquire();
+      let chunk: SourceChunk;
+      let chunkSuccess: boolean;
+      try {
+        // Broadcast recipients share one encrypted copy of each chunk
+        chunk = await source.read(chunkIndex, targetPeerId);
+
+        chunkSuccess = this.sendFrame(targetPeerId, encodeChunkFrame({
+          flags: FLAG_ENCRYPTED | FLAG_HASHED | (chunk.compressed ? FLAG_COMPRESSED : 0),
+          transferId,
+          chunkIndex,
+          iv: chunk.iv,
+          data: chunk.data
+        }));
+      } finally {
+        releaseTurn();
+      }
+
+      if (!chunkSuccess) {
+        // Keep the chunk and wait for the receiver to tell us what it is missing
+        console.warn(`Transfer ${transferId} interrupted at chunk ${chunkIndex}`);
+        outgoing.resendQueue.unshift(chunkIndex);
+        outgoing.interrupted = true;
+        continue;
+      }
+
+      outgoing.window.onSent(chunk.size);
+      outgoing.payloadBytes += chunk.size;
+      outgoing.wireBytes += chunk.wireSize;
+
+      const progress = (outgoing.nextChunk / totalChunks) * 100;
+      const sentBytes = Math.min(source.file.size, outgoing.nextChunk * source.chunkSize);
+      this.emit('fileTransferProgress', {
+        id: transferId,
+        progress,
+        ...this.measureRate(outgoing.meter, sentBytes, targetPeerId),
+        encryptionProgress: progress,
+        status: outgoing.paused ? 'paused' : 'transferring',
+        compressionRatio: source.compress && outgoing.wireBytes > 0
+          ? outgoing.payloadBytes / outgoing.wireBytes
+          : undefined
+      });
+    }
+  }
+
+  private async waitForResume(outgoing: OutgoingTransfer): Promise<void> {
+    if (outgoing.resumeRequestedAt === undefined) {
+      outgoing.resumeRequestedAt = Date.now();
+      this.requestResume(outgoing);
+    }
+
+    if (Date.now() - outgoing.resumeRequestedAt > RESUME_TIMEOUT) {
+      throw new Error('Transfer could not be resumed');
+    }
+
+    await this.waitForWake(outgoing);
+  }
+
+  // A silent receiver may have lost frames without either socket closing
+  private checkAckStall(outgoing: OutgoingTransfer): void {
+    if (outgoing.window.idleFor <= ACK_TIMEOUT) return;
+
+    if (outgoing.resumeRequestedAt === undefined) {
+      outgoing.resumeRequestedAt = Date.now();
+      this.requestResume(outgoing);
+    } else if (Date.now() - outgoing.resumeRequestedAt > RESUME_TIMEOUT) {
+      throw new Error('Receiver stopped acknowledging chunks');
+    }
+  }
+
+  // `unpause` marks a user resume, as opposed to a re-sync after a reconnect
+  private requestResume(outgoing: OutgoingTransfer, unpause = false): void {
+    this.sendMessage({
+      type: 'file-resume',
+      senderId: this.peerId,
+      targetId: outgoing.targetPeerId,
+      payload: { transferId: outgoing.id, unpause },
+      timestamp: Date.now()
+    });
+  }
+
+  // After a relay reconnect or a dropped data channel, both ends re-sync
+  // their transfers with this peer, using the transfer id as the resume token
+  private resumeTransfers(peerId?: string): void {
+    this.activeTransfers.forEach((transfer, transferId) => {
+      if (!peerId || transfer.senderId === peerId) {
+        this.sendMissingChunks(transferId, transfer);
+      }
+    });
+
+    this.outgoingTransfers.forEach((outgoing) => {
+      if (!peerId || outgoing.targetPeerId === peerId) {
+        outgoing.resumeRequestedAt = Date.now();
+        this.requestResume(outgoing);
+      }
+    });
+  }
+
+  private sendMissingChunks(transferId: string, transfer: FileTransferState, unpause = false): void {
+    const missing: [number, number][] = [];
+    let rangeStart: number | null = null;
+
+    for (let index = 0; index <= transfer.totalChunks; index++) {
+      const held = index === transfer.totalChunks || transfer.receivedIndices.has(index);
+      if (!held && rangeStart === null) {
+        rangeStart = index;
+      } else if (held && rangeStart !== null) {
+        missing.push([rangeStart, index]);
+        rangeStart = null;
+      }
+    }
+
+    this.sendMessage({
+      type: 'file-resume',
+      senderId: this.peerId,
+      targetId: transfer.senderId,
+      payload: {
+        transferId,
+        missing,
+        receivedBytes: transfer.receivedBytes,
+        unpause
+      },
+      timestamp: Date.now()
+    });
+  }
+
+  // WebSocket has no drain event, so fall back to a short poll
+  private waitForWake(outgoing: OutgoingTransfer): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        outgoing.wake = undefined;
+        resolve();
+      }, FLOW_POLL_INTERVAL);
+
+      outgoing.wake = () => {
+        clearTimeout(timer);
+        outgoing.wake = undefined;
+        resolve();
+      };
+    });
+  }
+
+  private wakeSenders(peerId: string): void {
+    this.outgoingTransfers.forEach((outgoing) => {
+      if (outgoing.targetPeerId === peerId) {
+        outgoing.wake?.();
+      }
+    });
+  }
+
+  // Seals a control value under the session key shared with `peerId`
+  private async sealFor(peerId: string, context: string, value: unknown): Promise<{ data: string; iv: string }> {
+    const connection = this.connections.get(peerId);
+    if (!connection) {
+      throw new Error('Peer disconnected');
+    }
+    return await Encryption.sealJson(value, connection.sessionKey, context);
+  }
+
+  // null when the peer has gone or the value was not sealed for `context`
+  private async openFrom(peerId: string, context: string, sealed: unknown): Promise<unknown> {
+    const connection = this.connections.get(peerId);
+    const { data, iv } = (sealed ?? {}) as { data?: unknown; iv?: unknown };
+    if (!connection || typeof data !== 'string' || typeof iv !== 'string') return null;
+
+    try {
+      return await Encryption.openJson({ data, iv }, connection.sessionKey, context);
+    } catch (error) {
+      console.error('Failed to open a sealed payload from', peerId, error);
+      return null;
+    }
+  }
+
+  // Binary frames take the same route as sendToPeer, wrapped for the relay
+  private sendFrame(targetPeerId: string, frame: ArrayBuffer): boolean {
+    const channel = this.connections.get(targetPeerId)?.dataChannel;
+
+    if (channel && channel.readyState === 'open') {
+      try {
+        channel.send(frame);
+        return true;
+      } catch (error) {
+        console.error('Failed to send over data channel, using relay:', error);
+        this.fallbackToRelay(targetPeerId);
+      }
+    }
+
+    if (!this.websocket || !this.isRelayReady()) {
+      return false;
+    }
+
+    try {
+      this.websocket.send(wrapRelayEnvelope(targetPeerId, frame));
+      return true;
+    } catch (error) {
+      console.error('Failed to send frame:', error);
+      return false;
+    }
+  }
+
+  private queueMessage(message: Message): void {
+    const targetId = message.targetId;
+    if (!targetId) return;
+    
+    if (!this.messageQueue.has(targetId)) {
+      this.messageQueue.set(targetId, []);
+    }
+    
+    this.messageQueue.get(targetId)?.push(message);
+  }
+
+  private processMessageQueue(): void {
+    if (!this.websocket || !this.isRelayReady()) {
+      return;
+    }
+    
+    this.messageQueue.forEach((messages, targetId) => {
+      messages.forEach(message => {
+        try {
+          this.websocket?.send(JSON.stringify(message));
+        } catch (error) {
+          console.error('Failed to send queued message:', error);
+        }
+      });
+      
+      this.messageQueue.delete(targetId);
+    });
+  }
+
+  private handleIncomingMessage(message: Message): void {
+    if (!message.type) return;
+
+    console.log('Received message:', message.type, message); // Add logging
+    
+    // Update last activity for the connection
+    if (message.senderId && this.connections.has(message.senderId)) {
+      const connection = this.connections.get(message.senderId)!;
+      connection.lastActivity = Date.now();
+      this.liveness.alive(message.senderId);
+      this.markPeerOnline(message.senderId);
+      this.connections.set(message.senderId, connection);
+    }
+    
+    switch (message.type) {
+      case 'connection-request':
+        this.handleConnectionRequest(message);
+        break;
+      case 'connection-accept':
+        this.handleConnectionAccept(message);
+        break;
+      case 'connection-reject':
+        this.handleConnectionReject(message);
+        break;
+      case 'file-offer':
+        this.handleFileOffer(message);
+        break;
+      case 'file-accept':
+      case 'file-decline':
+        this.handleOfferAnswer(message);
+        break;
+      case 'manifest':
+        this.handleManifest(message);
+        break;
+      case 'file-start':
+        this.handleFileStart(message);
+        break;
+      case 'file-ack':
+        this.handleFileAck(message);
+        break;
+      case 'file-pause':
+        this.handleFilePause(message);
+        break;
+      case 'file-resume':
+        this.handleFileResume(message);
+        break;
+      case 'file-cancel':
+        this.handleFileCancel(message);
+        break;
+      case 'file-complete':
+        this.handleFileComplete(message);
+        break;
+      case 'swarm-have':
+        this.handleSwarmHave(message);
+        break;
+      case 'swarm-manifest-request':
+        this.handleSwarmManifestRequest(message);
+        break;
+      case 'swarm-manifest':
+        this.handleSwarmManifest(message);
+        break;
+      case 'swarm-request':
+        this.handleSwarmRequest(message);
+        break;
+      case 'disconnect':
+        this.handleDisconnect(message);
+        break;
+      case 'ping':
+        // Respond with pong over the same path, echoing the probe time
+        if (message.senderId) {
+          this.sendToPeer({
+            type: 'pong',
+            senderId: this.peerId,
+            targetId: message.senderId,
+            payload: { probe: message.payload?.probe },
+            timestamp: Date.now()
+          });
+        }
+        break;
+      case 'pong':
+        // Last activity is already updated above; probes also give the RTT
+        if (message.senderId && typeof message.payload?.probe === 'number') {
+          this.connections.get(message.senderId)?.link.onRtt(Date.now() - message.payload.probe);
+          this.emitPeerHealth(message.senderId);
+        }
+        break;
+      case 'rtc-offer':
+        this.handleRtcOffer(message);
+        break;
+      case 'rtc-answer':
+        this.handleRtcAnswer(message);
+        break;
+      case 'rtc-ice-candidate':
+        this.handleRtcIceCandidate(message);
+        break;
+    }
+  }
+
+  private handleIncomingFrame(senderId: string, frame: ArrayBuffer): void {
+    const connection = this.connections.get(senderId);
+    if (!connection) return;
+
+    connection.lastActivity = Date.now();
+    this.liveness.alive(senderId);
+    this.markPeerOnline(senderId);
+
+    try {
+      switch (getFrameType(frame)) {
+        case FRAME_FILE_CHUNK: {
+          const chunk = decodeChunkFrame(frame);
+          if (this.swarmDownloads.has(chunk.transferId)) {
+            this.handleSwarmChunk(senderId, chunk);
+          } else {
+            this.handleFileChunk(senderId, chunk);
+          }
+          break;
+        }
+        default:
+          console.warn('Unknown frame type from:', senderId);
+      }
+    } catch (error) {
+      console.error('Failed to decode frame:', error);
+    }
+  }
+
+  private async handleConnectionRequest(message: Message): Promise<void> {
+    if (!message.senderId) return;
+
+    console.log('Received connection request from:', message.senderId);
+
+    const fingerprint = await this.checkHandshake(message);
+    if (!fingerprint) {
+      console.warn('Ignoring connection request without a valid identity signature from:', message.senderId);
+      return;
+    }
+
+    // A connected peer that asks again has lost its end of the session (a
+    // reload, say); the signature shows it is really them
+    if (this.connections.has(message.senderId)) {
+      this.dropPeer(message.senderId);
+    }
+    const peerPublicKey: string = message.payload.publicKey;
+    const contact = this.contactFor(message.senderId, fingerprint);
+
+    // Both sides of a trusted pair may ask at once; the lower peer id's request wins
+    if (this.handshakes.has(message.senderId) && contact?.trusted) {
+      if (this.peerId < message.senderId) return;
+      this.handshakes.delete(message.senderId);
+    }
+
+    // Generate our half up front so the safety code can be compared before accepting
+    let request: PendingRequest;
+    try {
+      const keyPair = await Encryption.generateKeyPair();
+      const publicKey = await Encryption.exportPublicKey(keyPair.publicKey);
+      request = {
+        keyPair,
+        publicKey,
+        peerPublicKey,
+        safetyCode: await Encryption.safetyCode(peerPublicKey, publicKey),
+        fingerprint
+      };
+    } catch (error) {
+      console.error('Failed to prepare handshake:', error);
+      return;
+    }
+
+    this.pendingConnections.set(message.senderId, request);
+
+    // Trusted contacts skip the prompt; their key was checked above
+    if (contact?.trusted) {
+      this.acceptConnection(message.senderId, contact.verified);
+      return;
+    }
+
+    // Notify user
+    this.emit('connectionRequest', {
+      peerId: message.senderId,
+      safetyCode: request.safetyCode
+    });
+    toast.success('New connection request received!');
+  }
+
+  private async handleConnectionAccept(message: Message): Promise<void> {
+    if (!message.senderId) return;
+    
+    console.log('Connection accepted by:', message.senderId);
+
+    const handshake = this.handshakes.get(message.senderId);
+    if (!handshake) {
+      console.warn('Connection accept without a matching handshake from:', message.senderId);
+      return;
+    }
+
+    const fingerprint = await this.checkHandshake(message);
+    if (!fingerprint || this.handshakes.get(message.senderId) !== handshake) {
+      console.warn('Connection accept without a valid identity signature from:', message.senderId);
+      return;
+    }
+    this.handshakes.delete(message.senderId);
+
+    let sessionKey: CryptoKey;
+    let safetyCode: string;
+    try {
+      sessionKey = await Encryption.deriveSessionKey(
+        handshake.keyPair.privateKey,
+        message.payload.publicKey,
+        handshake.publicKey,
+        message.payload.publicKey
+      );
+      safetyCode = await Encryption.safetyCode(handshake.publicKey, message.payload.publicKey);
+    } catch (error) {
+      console.error('Key agreement failed:', error);
+      this.connectionStatus = 'failed';
+      toast.error('Could not establish a secure session', { id: 'connect' });
+      return;
+    }
+
+    // A contact's safety code was already confirmed with this same key
+    const contact = this.contactFor(message.senderId, fingerprint);
+    const verified = contact?.verified ?? false;
+    
+    // Add to connections
+    this.connections.set(message.senderId, {
+      id: message.senderId,
+      connected: true,
+      mode: 'relay',
+      lastActivity: Date.now(),
+      sessionKey,
+      safetyCode,
+      verified,
+      fingerprint,
+      link: new LinkEstimator()
+    });
+    
+    this.connectionStatus = 'connected';
+    toast.success(contact ? `Connected to ${contact.alias}` : 'Connected successfully!', { id: 'connect' });
+    this.touchContact(message.senderId);
+    
+    // Notify listeners
+    this.emit('connection', {
+      peerId: message.senderId,
+      safetyCode,
+      verified,
+      fingerprint,
+      autoAccept: this.autoAcceptPeers.has(message.senderId)
+    });
+    this.scheduler.pump(message.senderId);
+    this.announceSeeds(message.senderId);
+    this.probeLink(message.senderId);
+
+    // The requesting side drives the WebRTC offer
+    this.startDirectConnection(message.senderId);
+  }
+
+  private handleConnectionReject(message: Message): void {
+    if (!message.senderId) return;
+    
+    console.log('Connection rejected by:', message.senderId);
+    this.handshakes.delete(message.senderId);
+    this.connectionStatus = 'failed';
+    toast.error('Connection rejected by peer', { id: 'connect' });
+  }
+
+  private handleFileOffer(message: Message): void {
+    if (!message.senderId || !message.payload) return;
+
+    const connection = this.connections.get(message.senderId);
+    if (!connection) return;
+
+    const { id, name, size, type, fileCount } = message.payload;
+    if (
+      typeof id !== 'string' ||
+      this.incomingOffers.has(id) ||
+      this.acceptedOffers.has(id) ||
+      this.activeTransfers.has(id) ||
+      this.incomingGroups.has(id)
+    ) return;
+
+    const offer: IncomingOffer = {
+      id,
+      name: String(name ?? 'file'),
+      size: Number(size) || 0,
+      type: String(type ?? ''),
+      fileCount: Math.max(1, Number(fileCount) || 1),
+      senderId: message.senderId,
+      timer: 0
+    };
+
+    if (this.autoAcceptPeers.has(message.senderId)) {
+      // No user gesture here, so the file goes to temporary storage
+      this.acceptOffer(offer, false);
+      return;
+    }
+
+    // The sender stops waiting after the same timeout
+    offer.timer = window.setTimeout(() => {
+      this.incomingOffers.delete(id);
+      this.emit('fileOfferWithdrawn', { id });
+    }, OFFER_TIMEOUT);
+    this.incomingOffers.set(id, offer);
+
+    this.emit('fileOffer', {
+      id,
+      peerId: message.senderId,
+      name: offer.name,
+      size: offer.size,
+      type: offer.type,
+      fileCount: offer.fileCount,
+      peerVerified: connection.verified
+    });
+  }
+
+  private handleOfferAnswer(message: Message): void {
+    if (!message.senderId || !message.payload) return;
+
+    const offer = this.outgoingOffers.get(message.payload.id);
+    if (!offer || offer.targetPeerId !== message.senderId) return;
+
+    offer.settle(message.type === 'file-accept' ? 'accepted' : 'declined');
+  }
+
+  private handleManifest(message: Message): void {
+    if (!message.senderId || !message.payload) return;
+    if (!this.connections.has(message.senderId)) return;
+
+    const { id, name, files } = message.payload;
+    if (typeof id !== 'string' || !Array.isArray(files) || this.incomingGroups.has(id)) return;
+
+    // Only groups the user agreed to receive
+    if (!this.claimAcceptedOffer(id, message.senderId)) {
+      console.warn('Ignoring manifest that was never accepted:', id);
+      return;
+    }
+
+    const entries = new Map<string, ManifestEntry>();
+    for (const file of files as ManifestEntry[]) {
+      // Paths come from the peer; never let them climb out of the save folder
+      const path = sanitizePath(String(file.path ?? ''));
+      if (!path || typeof file.transferId !== 'string') {
+        console.warn('Ignoring manifest with an invalid entry from:', message.senderId);
+        return;
+      }
+      entries.set(file.transferId, { ...file, path });
+    }
+
+    const group: IncomingGroup = {
+      id,
+      senderId: message.senderId,
+      name: sanitizePath(String(name ?? ''))?.replace(/\//g, '_') ?? `${entries.size} files`,
+      entries,
+      files: new Map(),
+      failed: false
+    };
+    this.incomingGroups.set(id, group);
+
+    this.emit('transferGroupStart', {
+      id,
+      name: group.name,
+      fileCount: entries.size,
+      size: Array.from(entries.values()).reduce((total, entry) => total + entry.size, 0),
+      direction: 'receive',
+      status: 'transferring',
+      peerId: message.senderId
+    });
+
+    toast(`Receiving ${group.name} (${entries.size} files)`);
+  }
+
+  private getGroupFiles(groupId: string): { path: string; file: File }[] | null {
+    const group = this.incomingGroups.get(groupId);
+    if (!group || group.files.size < group.entries.size) return null;
+
+    return Array.from(group.entries.values()).map(entry => ({
+      path: entry.path,
+      file: group.files.get(entry.transferId)!
+    }));
+  }
+
+  private triggerDownload(file: Blob, name: string): void {
+    const url = URL.createObjectURL(file);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = name;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private handleFileStart(message: Message): void {
+    if (!message.senderId || !message.payload) return;
+    
+    const {
+      id,
+      name,
+      size,
+      type,
+      groupId,
+      contentId,
+      contentKey,
+      chunkSize,
+      compression
+    } = message.payload;
+
+    const connection = this.connections.get(message.senderId);
+    if (!connection) {
+      console.warn('Ignoring file from unconnected peer:', message.senderId);
+      return;
+    }
+
+    // A replayed file-start must not wipe the chunks we already hold
+    if (this.activeTransfers.has(id)) return;
+
+    if (
+      !Number.isInteger(chunkSize) ||
+      chunkSize < MIN_CHUNK_SIZE ||
+      chunkSize > MAX_CHUNK_SIZE
+    ) {
+      console.warn('Ignoring file with an invalid chunk size:', chunkSize);
+      return;
+    }
+
+    if (!Number.isSafeInteger(size) || size < 0) {
+      console.warn('Ignoring file with an invalid size:', size);
+      return;
+    }
+
+    if (compression !== undefined && compression !== COMPRESSION_FORMAT) {
+      console.warn('Ignoring file with an unknown compression format:', compression);
+      return;
+    }
+
+    // Grouped files must have been announced by this sender's manifest
+    const group = groupId ? this.incomingGroups.get(groupId) : undefined;
+    if (groupId && (!group || group.senderId !== message.senderId || !group.entries.has(id))) {
+      console.warn('Ignoring file for an unknown group:', groupId);
+      return;
+    }
+
+    // A lone file must have been offered and accepted first
+    const accepted = group ? null : this.claimAcceptedOffer(id, message.senderId);
+    if (!group && !accepted) {
+      console.warn('Ignoring file that was never accepted:', id);
+      return;
+    }
+    
+    // Create new file transfer
+    const transfer: FileTransferState = {
+      metadata: { id, name, size, type, groupId },
+      chunkSize,
+      compressed: compression !== undefined,
+      wireBytes: 0,
+      meter: new RateMeter(size),
+      totalChunks: Math.ceil(size / chunkSize),
+      receivedIndices: new Set(),
+      chunkHashes: [],
+      corruptChunks: new Map(),
+      receivedBytes: 0,
+      unackedChunks: 0,
+      senderId: message.senderId,
+      key: connection.sessionKey,
+      contentId: typeof contentId === 'string' ? contentId : id,
+      decrypting: Promise.resolve(),
+      failed: false,
+      paused: false
+    };
+    this.activeTransfers.set(id, transfer);
+    this.touchTransfer(id);
+
+    // Broadcast chunks are encrypted under a content key sealed for us
+    const keyReady: Promise<void> = contentKey
+      ? Encryption.unwrapContentKey(contentKey, connection.sessionKey, id).then((key) => {
+          transfer.key = key;
+        })
+      : Promise.resolve();
+
+    // Chunks are streamed to storage as they arrive rather than held in memory
+    const sinkReady = accepted?.sink ?? createFileSink(id, name, type, { askForLocation: false });
+    transfer.decrypting = keyReady
+      .catch((error) => {
+        console.error('Failed to unwrap content key:', error);
+        this.failTransfer(id, 'Could not decrypt the file key');
+      })
+      .then(() => sinkReady)
+      .then((sink) => {
+        transfer.sink = sink;
+        // The transfer may have been dropped while the sink was opening
+        if (transfer.failed) {
+          sink.abort().catch(() => {});
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to open file sink:', error);
+        this.failTransfer(id, 'Could not open a destination for the file');
+      });
+    
+    // Notify listeners
+    this.emit('fileTransferStart', {
+      id,
+      name,
+      size,
+      type,
+      progress: 0,
+      status: 'pending',
+      direction: 'receive',
+      peerId: message.senderId,
+      peerVerified: connection.verified,
+      groupId,
+      path: group?.entries.get(id)?.path
+    });
+    
+    if (!group) {
+      toast.loading(`Receiving ${name}...`, { id });
+    }
+
+    // Stop the sender rather than collect chunks we could never inflate
+    if (transfer.compressed && !isCompressionSupported()) {
+      this.sendCancel(message.senderId, id);
+      this.failTransfer(id, 'This browser cannot decompress the file');
+    }
+  }
+
+  private handleFileChunk(senderId: string, frame: ChunkFrame): void {
+    const { transferId, chunkIndex, flags, iv, data } = frame;
+    
+    // Get file transfer
+    const transfer = this.activeTransfers.get(transferId);
+    if (!transfer || transfer.senderId !== senderId) return;
+
+    if (!(flags & FLAG_ENCRYPTED) || !(flags & FLAG_HASHED)) {
+      this.failTransfer(transferId, 'Received an unencrypted or unhashed chunk');
+      return;
+    }
+    
+    this.touchTransfer(transferId);
+    
+    transfer.decrypting = transfer.decrypting.then(async () => {
+      // Resumed transfers can deliver a chunk twice; count it once
+      if (transfer.failed || transfer.receivedIndices.has(chunkIndex)) return;
+
+      let hash: Uint8Array;
+      let payload: ArrayBuffer;
+      try {
+        // Decrypt and authenticate the chunk before storing it
+        ({ hash, payload } = splitHashedPayload(await Encryption.decryptChunk(
+          data,
+          transfer.key,
+          iv,
+          transfer.contentId,
+          chunkIndex
+        )));
+      } catch (error) {
+        console.error(`Chunk ${chunkIndex} failed authentication:`, error);
+        this.rejectChunk(transferId, transfer, chunkIndex);
+        return;
+      }
+
+      let plaintext = payload;
+      if (flags & FLAG_COMPRESSED) {
+        try {
+          if (!transfer.compressed) {
+            throw new Error('Compression was not announced in file-start');
+          }
+          plaintext = await decompress(payload, transfer.chunkSize);
+        } catch (error) {
+          console.error(`Chunk ${chunkIndex} failed to decompress:`, error);
+          this.rejectChunk(transferId, transfer, chunkIndex);
+          return;
+        }
+      }
+
+      const chunkHash = await sha256(plaintext);
+      if (!hashesEqual(chunkHash, hash)) {
+        console.error(`Chunk ${chunkIndex} does not match its SHA-256`);
+        this.rejectChunk(transferId, transfer, chunkIndex);
+        return;
+      }
+
+      try {
+        // Write chunk at its offset
+        await transfer.sink!.write(chunkIndex * transfer.chunkSize, plaintext);
+      } catch (error) {
+        console.error(`Failed to store chunk ${chunkIndex}:`, error);
+        this.failTransfer(transferId, 'Failed to write received data');
+        return;
+      }
+
+      transfer.receivedIndices.add(chunkIndex);
+      transfer.chunkHashes[chunkIndex] = chunkHash;
+      transfer.receivedBytes += plaintext.byteLength;
+      transfer.wireBytes += payload.byteLength;
+      transfer.unackedChunks++;
+      
+      // Update progress
+      const progress = (transfer.receivedIndices.size / transfer.totalChunks) * 100;
+
+      // Acknowledge in batches so the sender can slide its window
+      if (
+        transfer.unackedChunks >= ACK_EVERY_CHUNKS ||
+        transfer.receivedIndices.size >= transfer.totalChunks
+      ) {
+        transfer.unackedChunks = 0;
+        this.sendToPeer({
+          type: 'file-ack',
+          senderId: this.peerId,
+          targetId: senderId,
+          payload: { transferId, receivedBytes: transfer.receivedBytes },
+          timestamp: Date.now()
+        });
+      }
+      
+      // Notify listeners
+      this.emit('fileTransferProgress', {
+        id: transferId,
+        progress,
+        ...this.measureRate(transfer.meter, transfer.receivedBytes, senderId),
+        status: transfer.paused ? 'paused' : 'transferring',
+        compressionRatio: transfer.compressed && transfer.wireBytes > 0
+          ? transfer.receivedBytes / transfer.wireBytes
+          : undefined
+      });
+    });
+  }
+
+  // Drop a corrupt chunk and ask the sender for it again by index
+  private rejectChunk(transferId: string, transfer: FileTransferState, chunkIndex: number): void {
+    const attempts = (transfer.corruptChunks.get(chunkIndex) ?? 0) + 1;
+    transfer.corruptChunks.set(chunkIndex, attempts);
+
+    if (attempts > MAX_CHUNK_RETRIES) {
+      this.failTransfer(transferId, `Chunk ${chunkIndex} failed integrity check`);
+      return;
+    }
+
+    this.sendMissingChunks(transferId, transfer);
+  }
+
+  private handleFileAck(message: Message): void {
+    if (!message.senderId || !message.payload) return;
+
+    const { transferId, receivedBytes } = message.payload;
+    const outgoing = this.outgoingTransfers.get(transferId);
+    if (!outgoing || outgoing.targetPeerId !== message.senderId) return;
+
+    const newlyAcked = receivedBytes - outgoing.window.acked;
+    if (newlyAcked > 0) {
+      this.connections.get(message.senderId)?.link.onAcked(newlyAcked);
+    }
+
+    outgoing.window.onAck(receivedBytes, this.getBufferedAmount(message.senderId));
+    outgoing.wake?.();
+  }
+
+  private handleFileResume(message: Message): void {
+    if (!message.senderId || !message.payload) return;
+
+    const { transferId, missing, receivedBytes, unpause } = message.payload;
+
+    // As the receiver: the sender wants to know which chunks we still need
+    const transfer = this.activeTransfers.get(transferId);
+    if (transfer && transfer.senderId === message.senderId) {
+      if (unpause && transfer.paused) {
+        this.unpauseIncoming(transferId, transfer);
+      }
+      // Wait for queued decryptions so in-flight chunks are not reported missing
+      transfer.decrypting.then(() => {
+        if (!transfer.failed) {
+          this.sendMissingChunks(transferId, transfer);
+        }
+      });
+      return;
+    }
+
+    // As the sender: re-queue what was sent but never arrived
+    const outgoing = this.outgoingTransfers.get(transferId);
+    if (!outgoing || outgoing.targetPeerId !== message.senderId || !Array.isArray(missing)) {
+      return;
+    }
+
+    // Ranges come from the peer: malformed ones are dropped, the rest kept to
+    // chunks that were actually sent
+    const queued = new Set(outgoing.resendQueue);
+    for (const range of missing) {
+      if (!Array.isArray(range)) continue;
+      const [start, end] = range;
+      if (!Number.isInteger(start) || !Number.isInteger(end)) continue;
+      if (start < 0 || end > outgoing.totalChunks || start >= end) continue;
+
+      for (let index = start; index < Math.min(end, outgoing.nextChunk); index++) {
+        if (!queued.has(index)) {
+          outgoing.resendQueue.push(index);
+          queued.add(index);
+        }
+      }
+    }
+    outgoing.resendQueue.sort((a, b) => a - b);
+
+    console.log(`Resuming ${transferId}: re-sending ${outgoing.resendQueue.length} chunks`);
+    if (unpause && outgoing.paused) {
+      outgoing.paused = false;
+      outgoing.meter.restart();
+      this.emit('fileTransferProgress', { id: transferId, status: 'transferring' });
+    }
+    outgoing.window.reset(Number.isSafeInteger(receivedBytes) ? receivedBytes : 0);
+    outgoing.interrupted = false;
+    outgoing.resumeRequestedAt = undefined;
+    outgoing.wake?.();
+  }
+
+  private handleFilePause(message: Message): void {
+    if (!message.senderId || !message.payload) return;
+
+    const { transferId } = message.payload;
+
+    const outgoing = this.outgoingTransfers.get(transferId);
+    if (outgoing && outgoing.targetPeerId === message.senderId) {
+      this.pauseOutgoing(outgoing);
+      return;
+    }
+
+    const transfer = this.activeTransfers.get(transferId);
+    if (transfer && transfer.senderId === message.senderId) {
+      this.pauseIncoming(transferId, transfer);
+    }
+  }
+
+  private handleFileCancel(message: Message): void {
+    if (!message.senderId || !message.payload) return;
+
+    const { transferId } = message.payload;
+
+    // Cancelled before the prompt was answered
+    const offer = this.incomingOffers.get(transferId);
+    if (offer && offer.senderId === message.senderId) {
+      clearTimeout(offer.timer);
+      this.incomingOffers.delete(transferId);
+      this.emit('fileOfferWithdrawn', { id: transferId });
+      return;
+    }
+
+    if (this.acceptedOffers.get(transferId)?.senderId === message.senderId) {
+      this.releaseAcceptedOffer(transferId);
+      return;
+    }
+
+    const outgoing = this.outgoingTransfers.get(transferId);
+    if (outgoing && outgoing.targetPeerId === message.senderId) {
+      outgoing.cancelled = true;
+      outgoing.wake?.();
+      return;
+    }
+
+    const transfer = this.activeTransfers.get(transferId);
+    if (transfer && transfer.senderId === message.senderId) {
+      this.cancelIncoming(transferId);
+    }
+  }
+
+  private sendPause(peerId: string, transferId: string): void {
+    this.sendToPeer({
+      type: 'file-pause',
+      senderId: this.peerId,
+      targetId: peerId,
+      payload: { transferId },
+      timestamp: Date.now()
+    });
+  }
+
+  private sendCancel(peerId: string, transferId: string): void {
+    this.sendToPeer({
+      type: 'file-cancel',
+      senderId: this.peerId,
+      targetId: peerId,
+      payload: { transferId },
+      timestamp: Date.now()
+    });
+  }
+
+  private pauseOutgoing(outgoing: OutgoingTransfer): void {
+    if (outgoing.paused) return;
+
+    outgoing.paused = true;
+    outgoing.wake?.();
+    this.emit('fileTransferProgress', { id: outgoing.id, status: 'paused' });
+  }
+
+  private pauseIncoming(transferId: string, transfer: FileTransferState): void {
+    if (transfer.paused) return;
+
+    transfer.paused = true;
+    clearTimeout(transfer.staleTimer);
+    this.emit('fileTransferProgress', { id: transferId, status: 'paused' });
+  }
+
+  private unpauseIncoming(transferId: string, transfer: FileTransferState): void {
+    transfer.paused = false;
+    transfer.meter.restart();
+    this.touchTransfer(transferId);
+    this.emit('fileTransferProgress', { id: transferId, status: 'transferring' });
+  }
+
+  // Drop received transfers whose sender has gone quiet for too long
+  private touchTransfer(transferId: string): void {
+    const transfer = this.activeTransfers.get(transferId);
+    if (!transfer) return;
+
+    clearTimeout(transfer.staleTimer);
+    // A paused transfer may sit idle for as long as the user likes
+    if (transfer.paused) return;
+    transfer.staleTimer = window.setTimeout(() => {
+      this.failTransfer(transferId, 'Transfer stalled');
+    }, TRANSFER_STALE_TIMEOUT);
+  }
+
+  private async handleFileComplete(message: Message): Promise<void> {
+    if (!message.senderId || !message.payload) return;
+    
+    const { transferId, sealed } = message.payload;
+    
+    // Get file transfer
+    const transfer = this.activeTransfers.get(transferId);
+    if (!transfer || transfer.senderId !== message.senderId) return;
+
+    const expectedRoot = await this.openFrom(message.senderId, `file-complete:${transferId}`, sealed);
+
+    // Let in-flight chunks finish decrypting
+    await transfer.decrypting;
+    if (transfer.failed) return;
+    clearTimeout(transfer.staleTimer);
+
+    // Never report success until the whole file checks out
+    this.emit('fileTransferProgress', {
+      id: transferId,
+      progress: 100,
+      status: 'verifying'
+    });
+
+    if (transfer.receivedIndices.size < transfer.totalChunks) {
+      this.failTransfer(transferId, 'File is missing chunks');
+      return;
+    }
+
+    if (typeof expectedRoot !== 'string' || await rootHash(transfer.chunkHashes) !== expectedRoot) {
+      this.failTransfer(transferId, 'File hash does not match the sender');
+      return;
+    }
+    
+    try {
+      // Finish writing; a File comes back unless it was saved in place
+      const sink = transfer.sink!;
+      const completeFile = await sink.close();
+      
+      // Notify listeners
+      this.emit('fileTransferComplete', {
+        id: transferId,
+        status: 'completed',
+        hash: expectedRoot
+      });
+
+      const group = transfer.metadata.groupId
+        ? this.incomingGroups.get(transfer.metadata.groupId)
+        : undefined;
+
+      if (group && completeFile) {
+        // Held until the user saves the whole group
+        group.files.set(transferId, completeFile);
+        if (group.files.size === group.entries.size) {
+          this.emit('transferGroupComplete', { id: group.id, status: 'completed' });
+          toast.success(`${group.name} received successfully!`);
+        }
+      } else {
+        toast.success(`${transfer.metadata.name} received successfully!`, { id: transferId });
+        
+        // Download file, and keep it around in case the user shares it
+        if (completeFile) {
+          this.triggerDownload(completeFile, transfer.metadata.name);
+          this.holdFile(transferId, {
+            file: completeFile,
+            name: transfer.metadata.name,
+            type: transfer.metadata.type,
+            release: () => sink.release()
+          });
+        }
+      }
+      
+      // Clean up
+      this.activeTransfers.delete(transferId);
+    } catch (error) {
+      console.error('Failed to process file:', error);
+      
+      this.emit('fileTransferError', {
+        id: transferId,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      
+      toast.error(`Failed to process ${transfer.metadata.name}`, { id: transferId });
+      
+      // Clean up
+      this.activeTransfers.delete(transferId);
+    }
+  }
+
+  // Keeps a finished file for SEED_RETENTION so the user can share it; it
+  // stays private to the transfer until then
+  private holdFile(transferId: string, held: HeldFile): void {
+    if (held.file.size === 0) {
+      // Nothing to share; give the browser time to copy the download
+      setTimeout(() => this.releaseHeldFile(held), DOWNLOAD_RELEASE_DELAY);
+      return;
+    }
+
+    held.expiryTimer = window.setTimeout(() => {
+      this.heldFiles.delete(transferId);
+      this.emit('fileTransferProgress', { id: transferId, swarm: undefined });
+      this.releaseHeldFile(held);
+    }, SEED_RETENTION);
+    this.heldFiles.set(transferId, held);
+    this.emit('fileTransferProgress', { id: transferId, swarm: 'available' });
+  }
+
+  private releaseHeldFile(held: HeldFile): void {
+    held.release?.().catch((error) => {
+      console.error('Failed to remove temporary file:', error);
+    });
+  }
+
+  // Serves a shared file to swarm downloads for SEED_RETENTION and tells
+  // connected peers about it
+  private addSeed(seed: SwarmSeed): void {
+    const existing = this.swarmSeeds.get(seed.contentHash);
+    if (existing) {
+      // Already served from another copy of the same bytes
+      existing.transferIds.push(...seed.transferIds);
+      clearTimeout(seed.expiryTimer);
+      this.releaseHeldFile(seed);
+    } else {
+      seed.expiryTimer = window.setTimeout(() => this.removeSeed(seed.contentHash), SEED_RETENTION);
+      this.swarmSeeds.set(seed.contentHash, seed);
+      this.connections.forEach((_, peerId) => this.announceSeed(seed, peerId));
+      this.emitSwarmFiles();
+    }
+
+    seed.transferIds.forEach(id => this.emit('fileTransferProgress', { id, swarm: 'shared' }));
+  }
+
+  private removeSeed(contentHash: string): void {
+    const seed = this.swarmSeeds.get(contentHash);
+    if (!seed) return;
+
+    clearTimeout(seed.expiryTimer);
+    this.swarmSeeds.delete(contentHash);
+
+    // An empty range list withdraws the file
+    this.connections.forEach((_, peerId) => this.announceSeed(seed, peerId, []));
+    seed.transferIds.forEach(id => this.emit('fileTransferProgress', { id, swarm: undefined }));
+    this.releaseHeldFile(seed);
+  }
+
+  private announceSeeds(peerId: string): void {
+    this.swarmSeeds.forEach(seed => this.announceSeed(seed, peerId));
+  }
+
+  private announceSeed(
+    seed: SwarmSeed,
+    peerId: string,
+    ranges: ChunkRange[] = fullRange(seed.chunkHashes.length)
+  ): void {
+    this.sendSwarmMessage('swarm-have', peerId, {
+      contentHash: seed.contentHash,
+      name: seed.name,
+      size: seed.file.size,
+      type: seed.type,
+      ranges
+    });
+  }
+
+  // Swarm messages name files by content hash, which the relay must not see
+  private async sendSwarmMessage(type: MessageType, targetId: string, payload: object): Promise<boolean> {
+    try {
+      return await this.sendToPeer({
+        type,
+        senderId: this.peerId,
+        targetId,
+        payload: { sealed: await this.sealFor(targetId, type, payload) },
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      console.error(`Failed to send ${type}:`, error);
+      return false;
+    }
+  }
+
+  private async openSwarmMessage(message: Message): Promise<Record<string, unknown> | null> {
+    if (!message.senderId || !this.connections.has(message.senderId)) return null;
+
+    const payload = await this.openFrom(message.senderId, message.type, message.payload?.sealed);
+    return payload !== null && typeof payload === 'object' ? payload as Record<string, unknown> : null;
+  }
+
+  // Files peers have advertised that we neither hold nor are already fetching
+  private emitSwarmFiles(): void {
+    const downloading = new Set(
+      Array.from(this.swarmDownloads.values(), state => state.contentHash)
+    );
+
+    this.emit('swarmFilesChange', Array.from(this.swarmListings.values())
+      .filter(listing =>
+        !this.swarmSeeds.has(listing.contentHash) && !downloading.has(listing.contentHash)
+      )
+      .map(listing => ({
+        contentHash: listing.contentHash,
+        name: listing.name,
+        size: listing.size,
+        type: listing.type,
+        peerIds: Array.from(listing.holders.keys())
+      })));
+  }
+
+  private async handleSwarmHave(message: Message): Promise<void> {
+    const payload = await this.openSwarmMessage(message);
+    if (!payload) return;
+
+    const { contentHash, name, size, type, ranges } = payload;
+    if (
+      typeof contentHash !== 'string' ||
+      typeof name !== 'string' ||
+      typeof size !== 'number' || !Number.isInteger(size) || size <= 0 ||
+      !isChunkRangeList(ranges)
+    ) {
+      console.warn('Ignoring malformed swarm-have from:', message.senderId);
+      return;
+    }
+
+    let listing = this.swarmListings.get(contentHash);
+
+    if (ranges.length === 0) {
+      listing?.holders.delete(message.senderId);
+      if (listing?.holders.size === 0) {
+        this.swarmListings.delete(contentHash);
+      }
+    } else {
+      if (!listing) {
+        listing = {
+          contentHash,
+          name,
+          size,
+          type: typeof type === 'string' ? type : '',
+          holders: new Map()
+        };
+        this.swarmListings.set(contentHash, listing);
+      }
+
+      // A holder that disagrees about the size does not have these bytes
+      if (listing.size !== size) return;
+      listing.holders.set(message.senderId, ranges);
+
+      // A new holder can take ranges in downloads already running
+      this.swarmDownloads.forEach((state) => {
+        if (state.contentHash === contentHash) {
+          this.requestSwarmRanges(state);
+        }
+      });
+    }
+
+    this.emitSwarmFiles();
+  }
+
+  // Pages through a holder's chunk hashes until one list matches the content hash
+  private async fetchSwarmManifest(listing: SwarmListing): Promise<Uint8Array[]> {
+    const totalChunks = Math.ceil(listing.size / SWARM_CHUNK_SIZE);
+
+    for (const holderId of Array.from(listing.holders.keys())) {
+      const hashes: Uint8Array[] = [];
+      while (hashes.length < totalChunks) {
+        const page = await this.requestSwarmManifestPage(holderId, listing.contentHash, hashes.length);
+        if (!page || page.length === 0) break;
+        hashes.push(...page);
+      }
+
+      if (hashes.length === totalChunks && await rootHash(hashes) === listing.contentHash) {
+        return hashes;
+      }
+      console.warn('Chunk hashes from', holderId, 'do not match the content hash');
+    }
+
+    throw new Error('No peer sent a valid list of chunk hashes');
+  }
+
+  private requestSwarmManifestPage(
+    holderId: string,
+    contentHash: string,
+    offset: number
+  ): Promise<Uint8Array[] | null> {
+    const key = `${holderId}:${contentHash}:${offset}`;
+
+    return new Promise((resolve) => {
+      const timer = window.setTimeout(() => settle(null), SWARM_MANIFEST_TIMEOUT);
+      const settle = (hashes: Uint8Array[] | null) => {
+        clearTimeout(timer);
+        this.swarmManifestPages.delete(key);
+        resolve(hashes);
+      };
+      this.swarmManifestPages.set(key, settle);
+
+      this.sendSwarmMessage('swarm-manifest-request', holderId, { contentHash, offset });
+    });
+  }
+
+  // Only shared files are in swarmSeeds, so nothing else is ever served
+  private async handleSwarmManifestRequest(message: Message): Promise<void> {
+    const payload = await this.openSwarmMessage(message);
+    if (!payload) return;
+
+    const { contentHash, offset } = payload;
+    const seed = typeof contentHash === 'string' ? this.swarmSeeds.get(contentHash) : undefined;
+    if (!seed || typeof offset !== 'number' || !Number.isInteger(offset) || offset < 0) return;
+
+    this.sendSwarmMessage('swarm-manifest', message.senderId, {
+      contentHash,
+      offset,
+      hashes: encodeHashList(seed.chunkHashes.slice(offset, offset + SWARM_MANIFEST_PAGE))
+    });
+  }
+
+  private async handleSwarmManifest(message: Message): Promise<void> {
+    const payload = await this.openSwarmMessage(message);
+    if (!payload) return;
+
+    const { contentHash, offset, hashes } = payload;
+    const settle = this.swarmManifestPages.get(`${message.senderId}:${contentHash}:${offset}`);
+    if (!settle) return;
+
+    try {
+      settle(typeof hashes === 'string' ? decodeHashList(hashes) : null);
+    } catch (error) {
+      console.error('Malformed swarm manifest:', error);
+      settle(null);
+    }
+  }
+
+  // Gives every idle holder the next range it can serve
+  private requestSwarmRanges(state: SwarmDownloadState): void {
+    if (!state.ready || state.failed || state.paused) return;
+
+    const listing = this.swarmListings.get(state.contentHash);
+    listing?.holders.forEach((ranges, holderId) => {
+      if (!this.connections.has(holderId)) return;
+
+      const range = state.download.claim(holderId, ranges);
+      if (!range) return;
+
+      this.sendSwarmMessage('swarm-request', holderId, {
+        downloadId: state.id,
+        contentHash: state.contentHash,
+        range
+      });
+    });
+
+    if (state.download.sources.length === 0) {
+      this.failSwarmDownload(state.id, 'No connected peer has the rest of the file');
+    }
+  }
+
+  // Sources that stopped sending lose their range to the other holders
+  private checkSwarmSources(state: SwarmDownloadState): void {
+    const stalled = state.download.stalledPeers(SWARM_STALL_TIMEOUT);
+    if (stalled.length === 0) return;
+
+    stalled.forEach(peerId => state.download.release(peerId, true));
+    this.requestSwarmRanges(state);
+  }
+
+  private async handleSwarmRequest(message: Message): Promise<void> {
+    const payload = await this.openSwarmMessage(message);
+    if (!payload) return;
+
+    const { downloadId, contentHash } = payload;
+    const ranges = [payload.range];
+    const seed = typeof contentHash === 'string' ? this.swarmSeeds.get(contentHash) : undefined;
+    const connection = this.connections.get(message.senderId);
+    if (
+      !seed ||
+      !connection ||
+      typeof downloadId !== 'string' ||
+      !isChunkRangeList(ranges) ||
+      ranges[0][1] > seed.chunkHashes.length
+    ) {
+      return;
+    }
+
+    this.serveSwarmRange(message.senderId, downloadId, seed, connection.sessionKey, ranges[0])
+      .catch((error) => console.error('Failed to serve swarm range:', error));
+  }
+
+  // Streams one requested range under the requester's session key, taking
+  // send turns like any other transfer
+  private async serveSwarmRange(
+    peerId: string,
+    downloadId: string,
+    seed: SwarmSeed,
+    sessionKey: CryptoKey,
+    [start, end]: ChunkRange
+  ): Promise<void> {
+    const source = new ChunkSource(seed.file, sessionKey, downloadId, SWARM_CHUNK_SIZE);
+
+    for (let chunkIndex = start; chunkIndex < end; chunkIndex++) {
+      while (this.getBufferedAmount(peerId) > BUFFER_HIGH_WATER && this.connections.has(peerId)) {
+        await new Promise(resolve => setTimeout(resolve, FLOW_POLL_INTERVAL));
+      }
+      if (!this.connections.has(peerId) || !this.swarmSeeds.has(seed.contentHash)) return;
+
+      const releaseTurn = await this.sendTurns.acquire();
+      try {
+        const chunk = await source.read(chunkIndex);
+        const sent = this.sendFrame(peerId, encodeChunkFrame({
+          flags: FLAG_ENCRYPTED | FLAG_HASHED,
+          transferId: downloadId,
+          chunkIndex,
+          iv: chunk.iv,
+          data: chunk.data
+        }));
+        // The downloader re-assigns whatever we could not send
+        if (!sent) return;
+      } finally {
+        releaseTurn();
+      }
+    }
+  }
+
+  private handleSwarmChunk(senderId: string, frame: ChunkFrame): void {
+    const { transferId, chunkIndex, flags, iv, data } = frame;
+    const state = this.swarmDownloads.get(transferId);
+    const connection = this.connections.get(senderId);
+    if (!state || !state.ready || !connection) return;
+
+    state.writing = state.writing.then(async () => {
+      const { download } = state;
+      if (state.failed || download.received.has(chunkIndex) || download.isExcluded(senderId)) return;
+
+      // Every chunk must match the hash list that was checked against the content hash
+      const expected = state.chunkHashes[chunkIndex];
+      let plaintext: ArrayBuffer | null = null;
+      if (expected && flags & FLAG_ENCRYPTED && flags & FLAG_HASHED) {
+        try {
+          // Our own hash list is what counts; the one sent along is ignored
+          plaintext = splitHashedPayload(await Encryption.decryptChunk(
+            data,
+            connection.sessionKey,
+            iv,
+            transferId,
+            chunkIndex
+          )).payload;
+        } catch (error) {
+          console.error(`Swarm chunk ${chunkIndex} failed authentication:`, error);
         }
-        break;
-      case 'pong':
-        // Just update last activity, already done above
-        break;
+      }
+
+      if (!plaintext || !hashesEqual(await sha256(plaintext), expected)) {
+        // This peer does not hold the file it advertised; the others take over
+        console.error(`Swarm chunk ${chunkIndex} from ${senderId} failed verification`);
+        download.release(senderId, true);
+        this.requestSwarmRanges(state);
+        return;
+      }
+
+      try {
+        await state.sink!.write(chunkIndex * SWARM_CHUNK_SIZE, plaintext);
+      } catch (error) {
+        console.error(`Failed to store chunk ${chunkIndex}:`, error);
+        this.failSwarmDownload(transferId, 'Failed to write received data');
+        return;
+      }
+
+      state.receivedBytes += plaintext.byteLength;
+      download.onChunk(senderId, chunkIndex);
+      if (!download.complete) {
+        this.requestSwarmRanges(state);
+      }
+
+      this.emit('fileTransferProgress', {
+        id: transferId,
+        progress: (download.received.size / download.totalChunks) * 100,
+        ...this.measureRate(state.meter, state.receivedBytes, senderId),
+        status: state.paused ? 'paused' : 'transferring',
+        sources: download.sources.length
+      });
+
+      if (download.complete) {
+        await this.finishSwarmDownload(state);
+      }
+    });
+  }
+
+  private async finishSwarmDownload(state: SwarmDownloadState): Promise<void> {
+    clearInterval(state.watchdog);
+    this.swarmDownloads.delete(state.id);
+
+    try {
+      const sink = state.sink!;
+      const completeFile = await sink.close();
+
+      this.emit('fileTransferComplete', {
+        id: state.id,
+        status: 'completed',
+        hash: state.contentHash
+      });
+      toast.success(`${state.name} received successfully!`, { id: state.id });
+
+      // Its holders already offered it to every connected peer, so this copy
+      // joins them, on the same SEED_RETENTION as theirs
+      if (completeFile) {
+        this.triggerDownload(completeFile, state.name);
+        this.addSeed({
+          contentHash: state.contentHash,
+          file: completeFile,
+          name: state.name,
+          type: state.type,
+          chunkHashes: state.chunkHashes,
+          transferIds: [state.id],
+          release: () => sink.release()
+        });
+      }
+    } catch (error) {
+      console.error('Failed to process file:', error);
+
+      this.emit('fileTransferError', {
+        id: state.id,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      toast.error(`Failed to process ${state.name}`, { id: state.id });
     }
+
+    this.emitSwarmFiles();
   }
 
-  private handleConnectionAccept(message: Message): void {
-    if (!message.senderId) return;
-    
-    console.log('Connection accepted by:', message.senderId);
-    
-    // Add to connections
-    this.connections.set(message.senderId, {
-      id: message.senderId,
-      connected: true,
-      mode: 'relay',
-      lastActivity: Date.now()
+  private failSwarmDownload(downloadId: string, reason: string): void {
+    const state = this.discardSwarmDownload(downloadId);
+    if (!state) return;
+
+    this.emit('fileTransferError', {
+      id: downloadId,
+      status: 'error',
+      error: reason
     });
-    
-    this.connectionStatus = 'connected';
-    toast.success('Connected successfully!', { id: 'connect' });
-    
-    // Notify listeners
-    this.emit('connection', { peerId: message.senderId });
+
+    toast.error(`Failed to receive ${state.name}`, { id: downloadId });
   }
 
-  private handleConnectionReject(message: Message): void {
-    if (!message.senderId) return;
-    
-    console.log('Connection rejected by:', message.senderId);
-    this.connectionStatus = 'failed';
-    toast.error('Connection rejected by peer', { id: 'connect' });
+  private discardSwarmDownload(downloadId: string): SwarmDownloadState | null {
+    const state = this.swarmDownloads.get(downloadId);
+    if (!state) return null;
+
+    state.failed = true;
+    clearInterval(state.watchdog);
+    state.sink?.abort().catch((error) => {
+      console.error('Failed to discard partial file:', error);
+    });
+    this.swarmDownloads.delete(downloadId);
+    this.emitSwarmFiles();
+
+    return state;
   }
 
-  private handleFileStart(message: Message): void {
-    if (!message.senderId || !message.payload) return;
-    
-    const { id, name, size, type } = message.payload;
-    
-    // Create new file transfer
-    this.activeTransfers.set(id, {
-      chunks: [],
-      metadata: { id, name, size, type },
-      totalChunks: Math.ceil(size / CHUNK_SIZE),
-      receivedChunks: 0
+  // A peer that left no longer serves or advertises anything
+  private dropSwarmPeer(peerId: string): void {
+    this.swarmListings.forEach((listing, contentHash) => {
+      listing.holders.delete(peerId);
+      if (listing.holders.size === 0) {
+        this.swarmListings.delete(contentHash);
+      }
     });
-    
-    // Notify listeners
-    this.emit('fileTransferStart', {
-      id,
-      name,
-      size,
-      type,
-      progress: 0,
-      status: 'pending',
-      senderId: message.senderId
+
+    this.swarmDownloads.forEach((state) => {
+      if (state.download.sources.includes(peerId)) {
+        state.download.release(peerId);
+        this.requestSwarmRanges(state);
+      }
     });
-    
-    toast.loading(`Receiving ${name}...`, { id });
+
+    this.emitSwarmFiles();
+  }
+
+  private createRtcConnection(peerId: string): RTCPeerConnection | null {
+    const connection = this.connections.get(peerId);
+    if (!connection || typeof RTCPeerConnection === 'undefined') {
+      return null;
+    }
+
+    this.closeDirectConnection(peerId);
+
+    const rtc = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+    connection.rtc = rtc;
+    connection.pendingCandidates = [];
+
+    rtc.onicecandidate = (event) => {
+      if (event.candidate) {
+        this.sendMessage({
+          type: 'rtc-ice-candidate',
+          senderId: this.peerId,
+          targetId: peerId,
+          payload: event.candidate.toJSON(),
+          timestamp: Date.now()
+        });
+      }
+    };
+
+    rtc.oniceconnectionstatechange = () => {
+      if (rtc.iceConnectionState === 'failed') {
+        console.log(`ICE failed for ${peerId}, falling back to relay`);
+        this.fallbackToRelay(peerId);
+      }
+    };
+
+    rtc.ondatachannel = (event) => {
+      this.setupDataChannel(peerId, event.channel);
+    };
+
+    // Give up on a direct path if the channel does not open in time
+    connection.directTimeout = window.setTimeout(() => {
+      if (this.connections.get(peerId)?.mode !== 'direct') {
+        console.log(`Direct connection to ${peerId} timed out, staying on relay`);
+        this.fallbackToRelay(peerId);
+      }
+    }, DIRECT_CONNECTION_TIMEOUT);
+
+    return rtc;
+  }
+
+  private setupDataChannel(peerId: string, channel: RTCDataChannel): void {
+    const connection = this.connections.get(peerId);
+    if (!connection) {
+      channel.close();
+      return;
+    }
+
+    connection.dataChannel = channel;
+
+    channel.onopen = () => {
+      console.log('Direct data channel open with:', peerId);
+      this.setConnectionMode(peerId, 'direct');
+      // The direct path has its own round trip
+      this.probeLink(peerId);
+    };
+
+    channel.onclose = () => {
+      if (this.connections.get(peerId)?.dataChannel === channel) {
+        this.fallbackToRelay(peerId);
+      }
+    };
+
+    channel.binaryType = 'arraybuffer';
+    channel.bufferedAmountLowThreshold = BUFFER_LOW_WATER;
+    channel.onbufferedamountlow = () => this.wakeSenders(peerId);
+
+    channel.onmessage = (event) => {
+      if (event.data instanceof ArrayBuffer) {
+        this.handleIncomingFrame(peerId, event.data);
+        return;
+      }
+
+      try {
+        const message = JSON.parse(event.data);
+        // The channel is bound to a single peer, so trust it over the payload
+        this.handleIncomingMessage({ ...message, senderId: peerId });
+      } catch (error) {
+        console.error('Failed to parse data channel message:', error);
+      }
+    };
+  }
+
+  private async startDirectConnection(peerId: string): Promise<void> {
+    const rtc = this.createRtcConnection(peerId);
+    if (!rtc) return;
+
+    try {
+      this.setupDataChannel(peerId, rtc.createDataChannel('sharencrypt', { ordered: true }));
+
+      const offer = await rtc.createOffer();
+      await rtc.setLocalDescription(offer);
+
+      await this.sendMessage({
+        type: 'rtc-offer',
+        senderId: this.peerId,
+        targetId: peerId,
+        payload: rtc.localDescription?.toJSON(),
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      console.error('Failed to start direct connection:', error);
+      this.fallbackToRelay(peerId);
+    }
   }
 
-  private async handleFileChunk(message: Message): void {
+  private async handleRtcOffer(message: Message): Promise<void> {
     if (!message.senderId || !message.payload) return;
-    
-    const { transferId, chunkIndex, totalChunks, chunk } = message.payload;
-    
-    // Get file transfer
-    const transfer = this.activeTransfers.get(transferId);
+
+    const rtc = this.createRtcConnection(message.senderId);
+    if (!rtc) return;
+
+    try {
+      await rtc.setRemoteDescription(message.payload);
+      await this.flushPendingCandidates(message.senderId);
+
+      const answer = await rtc.createAnswer();
+      await rtc.setLocalDescription(answer);
+
+      await this.sendMessage({
+        type: 'rtc-answer',
+        senderId: this.peerId,
+        targetId: message.senderId,
+        payload: rtc.localDescription?.toJSON(),
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      console.error('Failed to answer direct connection:', error);
+      this.fallbackToRelay(message.senderId);
+    }
+  }
+
+  private async handleRtcAnswer(message: Message): Promise<void> {
+    if (!message.senderId || !message.payload) return;
+
+    const rtc = this.connections.get(message.senderId)?.rtc;
+    if (!rtc) return;
+
+    try {
+      await rtc.setRemoteDescription(message.payload);
+      await this.flushPendingCandidates(message.senderId);
+    } catch (error) {
+      console.error('Failed to apply direct connection answer:', error);
+      this.fallbackToRelay(message.senderId);
+    }
+  }
+
+  private async handleRtcIceCandidate(message: Message): Promise<void> {
+    if (!message.senderId || !message.payload) return;
+
+    const connection = this.connections.get(message.senderId);
+    if (!connection?.rtc) return;
+
+    // Candidates can overtake the offer/answer, so hold them until it is applied
+    if (!connection.rtc.remoteDescription) {
+      connection.pendingCandidates?.push(message.payload);
+      return;
+    }
+
+    try {
+      await connection.rtc.addIceCandidate(message.payload);
+    } catch (error) {
+      console.error('Failed to add ICE candidate:', error);
+    }
+  }
+
+  private async flushPendingCandidates(peerId: string): Promise<void> {
+    const connection = this.connections.get(peerId);
+    if (!connection?.rtc) return;
+
+    const candidates = connection.pendingCandidates ?? [];
+    connection.pendingCandidates = [];
+
+    for (const candidate of candidates) {
+      try {
+        await connection.rtc.addIceCandidate(candidate);
+      } catch (error) {
+        console.error('Failed to add queued ICE candidate:', error);
+      }
+    }
+  }
+
+  private fallbackToRelay(peerId: string): void {
+    const wasDirect = this.connections.get(peerId)?.mode === 'direct';
+
+    this.closeDirectConnection(peerId);
+    if (this.connections.has(peerId)) {
+      this.setConnectionMode(peerId, 'relay');
+
+      // Frames in the closed channel's buffer are gone; re-sync over the relay
+      if (wasDirect) {
+        this.resumeTransfers(peerId);
+      }
+    }
+  }
+
+  private closeDirectConnection(peerId: string): void {
+    const connection = this.connections.get(peerId);
+    if (!connection) return;
+
+    if (connection.directTimeout !== undefined) {
+      clearTimeout(connection.directTimeout);
+      connection.directTimeout = undefined;
+    }
+
+    const { dataChannel, rtc } = connection;
+    connection.dataChannel = undefined;
+    connection.rtc = undefined;
+    connection.pendingCandidates = undefined;
+
+    dataChannel?.close();
+    rtc?.close();
+  }
+
+  private setConnectionMode(peerId: string, mode: ConnectionMode): void {
+    const connection = this.connections.get(peerId);
+    if (!connection || connection.mode === mode) return;
+
+    connection.mode = mode;
+    if (mode === 'direct' && connection.directTimeout !== undefined) {
+      clearTimeout(connection.directTimeout);
+      connection.directTimeout = undefined;
+    }
+
+    this.emit('connectionModeChange', { peerId, mode });
+  }
+
+  private failTransfer(transferId: string, reason: string): void {
+    const transfer = this.discardIncoming(transferId, 'error');
     if (!transfer) return;
-    
-    // Convert chunk back to ArrayBuffer
-    const arrayBuffer = new Uint8Array(chunk).buffer;
-    
-    // Store chunk
-    transfer.chunks[chunkIndex] = arrayBuffer;
-    transfer.receivedChunks++;
-    
-    // Update progress
-    const progress = (transfer.receivedChunks / totalChunks) * 100;
-    
-    // Notify listeners
-    this.emit('fileTransferProgress', {
+
+    this.emit('fileTransferError', {
       id: transferId,
-      progress,
-      status: 'transferring'
+      status: 'error',
+      error: reason
     });
+
+    toast.error(`Failed to receive ${transfer.metadata.name}`, { id: transferId });
   }
 
-  private async handleFileComplete(message: Message): void {
-    if (!message.senderId || !message.payload) return;
-    
-    const { transferId } = message.payload;
-    
-    // Get file transfer
-    const transfer = this.activeTransfers.get(transferId);
+  private cancelIncoming(transferId: string): void {
+    const transfer = this.discardIncoming(transferId, 'cancelled');
     if (!transfer) return;
-    
-    try {
-      // Combine chunks
-      const completeFile = new Blob(transfer.chunks, { type: transfer.metadata.type });
-      const url = URL.createObjectURL(completeFile);
-      
-      // Notify listeners
-      this.emit('fileTransferComplete', {
-        id: transferId,
-        status: 'completed',
-        url
-      });
-      
-      toast.success(`${transfer.metadata.name} received successfully!`, { id: transferId });
-      
-      // Download file
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = transfer.metadata.name;
-      a.click();
-      URL.revokeObjectURL(url);
-      
-      // Clean up
-      this.activeTransfers.delete(transferId);
-    } catch (error) {
-      console.error('Failed to process file:', error);
-      
-      this.emit('fileTransferError', {
-        id: transferId,
-        status: 'error',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
-      
-      toast.error(`Failed to process ${transfer.metadata.name}`, { id: transferId });
-      
-      // Clean up
-      this.activeTransfers.delete(transferId);
+
+    this.emit('fileTransferError', {
+      id: transferId,
+      status: 'cancelled',
+      error: 'Cancelled'
+    });
+
+    toast(`${transfer.metadata.name} was cancelled`, { id: transferId });
+  }
+
+  // Stops a received transfer and frees whatever it had written so far
+  private discardIncoming(
+    transferId: string,
+    groupStatus: 'error' | 'cancelled'
+  ): FileTransferState | null {
+    const transfer = this.activeTransfers.get(transferId);
+    if (!transfer) return null;
+
+    transfer.failed = true;
+    transfer.sink?.abort().catch((error) => {
+      console.error('Failed to discard partial file:', error);
+    });
+    clearTimeout(transfer.staleTimer);
+    this.activeTransfers.delete(transferId);
+
+    const group = transfer.metadata.groupId
+      ? this.incomingGroups.get(transfer.metadata.groupId)
+      : undefined;
+    if (group && !group.failed) {
+      group.failed = true;
+      this.emit('transferGroupComplete', { id: group.id, status: groupStatus });
+    }
+
+    return transfer;
+  }
+
+  private emitPeerHealth(peerId: string): void {
+    const connection = this.connections.get(peerId);
+    if (!connection) return;
+
+    this.emit('peerHealthChange', {
+      peerId,
+      health: this.liveness.healthOf(peerId),
+      rtt: connection.link.roundTrip ?? undefined
+    });
+  }
+
+  // Silent past the liveness limit: most likely the tab was closed. A peer
+  // with transfers still open is kept like an offline one, so they can resume
+  // if it returns; their own timeouts end them otherwise, and the next check
+  // removes the peer.
+  private removeDeadPeer(peerId: string): void {
+    if (this.hasOpenTransfers(peerId)) return;
+
+    const alias = this.contacts.get(peerId)?.alias;
+    this.dropPeer(peerId);
+    toast(`${alias ?? 'A peer'} stopped responding and was removed`, { icon: '⚪' });
+  }
+
+  private hasOpenTransfers(peerId: string): boolean {
+    return Array.from(this.outgoingTransfers.values()).some(
+      outgoing => outgoing.targetPeerId === peerId && !outgoing.cancelled
+    ) || Array.from(this.activeTransfers.values()).some(
+      transfer => transfer.senderId === peerId && !transfer.failed
+    );
+  }
+
+  // Closes our side of a session without telling the peer
+  private dropPeer(peerId: string): void {
+    this.liveness.forget(peerId);
+    this.closeDirectConnection(peerId);
+    this.connections.delete(peerId);
+    this.dropOffers(peerId);
+    this.dropSwarmPeer(peerId);
+    this.forgetPeer(peerId);
+    this.emit('disconnection', { peerId });
+  }
+
+  // Saved contacts keep their file auto-accept setting for next time
+  private forgetPeer(peerId: string): void {
+    if (!this.contacts.get(peerId)?.autoAcceptFiles) {
+      this.autoAcceptPeers.delete(peerId);
     }
+    this.touchContact(peerId);
   }
 
   private handleDisconnect(message: Message): void {
@@ -691,13 +4161,10 @@ export class PeerService {
     
     console.log('Peer disconnected:', message.senderId);
     
-    // Remove from connections
-    this.connections.delete(message.senderId);
-    
-    // Notify listeners
-    this.emit('disconnection', { peerId: message.senderId });
+    // Remove from connections and notify listeners
+    this.dropPeer(message.senderId);
     
-    toast.info('Peer disconnected');
+    toast('Peer disconnected');
   }
 }
 
@@ -0,0 +1,32 @@
+// Sends still waiting in the transfer queue, kept in IndexedDB so a reload
+// does not lose them. Files survive structured cloning, so each record holds
+// the files themselves; a queued broadcast comes back as separate sends.
+
+import { SelectedFile } from '../utils/fileEntries';
+import { QUEUE_STORE, openDatabase, requestResult } from './database';
+
+export interface QueuedSend {
+  // The transfer id of a single file, or the group id of several
+  id: string;
+  peerId: string;
+  files: SelectedFile[];
+  // Place in the peer's queue
+  position: number;
+}
+
+// In each peer's queue order
+export const loadQueuedSends = async (): Promise<QueuedSend[]> => {
+  const db = await openDatabase();
+  const sends = await requestResult(db.transaction(QUEUE_STORE).objectStore(QUEUE_STORE).getAll()) as QueuedSend[];
+  return sends.sort((a, b) => a.position - b.position);
+};
+
+export const saveQueuedSend = async (send: QueuedSend): Promise<void> => {
+  const db = await openDatabase();
+  await requestResult(db.transaction(QUEUE_STORE, 'readwrite').objectStore(QUEUE_STORE).put(send));
+};
+
+export const deleteQueuedSend = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  await requestResult(db.transaction(QUEUE_STORE, 'readwrite').objectStore(QUEUE_STORE).delete(id));
+};
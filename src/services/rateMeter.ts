@@ -0,0 +1,61 @@
+// Speed and ETA for one transfer.
+//
+// Bytes are reported on every chunk, but the rate is only sampled about once
+// a second and smoothed, so the numbers in the UI do not jitter. Each sample
+// remembers whether the data was going direct or through the relay, which is
+// what the sparkline colours by.
+
+import { ThroughputSample } from '../types';
+
+const SAMPLE_INTERVAL = 1000; // ms
+const SMOOTHING = 0.3;
+const HISTORY_LENGTH = 60; // A minute of samples
+
+export class RateMeter {
+  private rate: number | null = null;
+  private samples: ThroughputSample[] = [];
+  private lastSampleAt = Date.now();
+  private lastSampleBytes = 0;
+  private bytes = 0;
+
+  constructor(private totalBytes: number) {}
+
+  // Smoothed bytes per second, once a sample has been taken
+  public get bytesPerSecond(): number | null {
+    return this.rate;
+  }
+
+  // Seconds left at the current rate
+  public get eta(): number | null {
+    if (!this.rate) return null;
+    return Math.max(0, this.totalBytes - this.bytes) / this.rate;
+  }
+
+  public get history(): ThroughputSample[] {
+    return this.samples;
+  }
+
+  // `bytes` is the running total; true when a new sample was taken
+  public update(bytes: number, mode: ThroughputSample['mode']): boolean {
+    this.bytes = bytes;
+
+    const now = Date.now();
+    const elapsed = now - this.lastSampleAt;
+    if (elapsed < SAMPLE_INTERVAL) return false;
+
+    const sample = ((bytes - this.lastSampleBytes) * 1000) / elapsed;
+    this.rate = this.rate === null ? sample : this.rate + SMOOTHING * (sample - this.rate);
+    this.lastSampleAt = now;
+    this.lastSampleBytes = bytes;
+
+    // A new array each time, so React sees the change
+    this.samples = [...this.samples, { bytesPerSecond: sample, mode }].slice(-HISTORY_LENGTH);
+    return true;
+  }
+
+  // After a pause the gap is not part of any sample
+  public restart(): void {
+    this.lastSampleAt = Date.now();
+    this.lastSampleBytes = this.bytes;
+  }
+}
@@ -0,0 +1,76 @@
+// Which relay servers to use, in the order they are tried.
+//
+// The list comes from the first of these that is set: a `?relay=` query
+// parameter (for this page load only), the list saved in the settings panel,
+// the build-time VITE_RELAY_URL, and finally the public relay. Each source may
+// hold several comma-separated URLs; later ones are fallbacks.
+
+import { RelaySource } from '../types';
+
+export const DEFAULT_RELAY_URL = 'wss://sharenrypt-p2p-file-sharing.onrender.com/ws';
+
+const STORAGE_KEY = 'sharencrypt.relayUrls';
+
+export interface RelayConfig {
+  urls: string[];
+  source: RelaySource;
+}
+
+// http(s) URLs are accepted and mapped to ws(s), since that is what people paste
+export const normalizeRelayUrl = (input: string): string | null => {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  try {
+    const url = new URL(trimmed);
+    if (url.protocol === 'https:') url.protocol = 'wss:';
+    if (url.protocol === 'http:') url.protocol = 'ws:';
+    if (url.protocol !== 'wss:' && url.protocol !== 'ws:') return null;
+    return url.toString();
+  } catch {
+    return null;
+  }
+};
+
+// Commas or new lines between URLs; invalid entries are dropped
+export const parseRelayList = (text: string): string[] => {
+  const urls = text
+    .split(/[\s,]+/)
+    .map(normalizeRelayUrl)
+    .filter((url): url is string => url !== null);
+  return Array.from(new Set(urls));
+};
+
+export const loadSavedRelayUrls = (): string[] => {
+  try {
+    return parseRelayList(localStorage.getItem(STORAGE_KEY) ?? '');
+  } catch {
+    return [];
+  }
+};
+
+// An empty list clears the setting, falling back to the build-time relays
+export const saveRelayUrls = (urls: string[]): void => {
+  try {
+    if (urls.length === 0) {
+      localStorage.removeItem(STORAGE_KEY);
+    } else {
+      localStorage.setItem(STORAGE_KEY, urls.join('\n'));
+    }
+  } catch (error) {
+    console.warn('Could not save relay settings:', error);
+  }
+};
+
+export const resolveRelayConfig = (): RelayConfig => {
+  const fromQuery = parseRelayList(new URLSearchParams(window.location.search).getAll('relay').join(','));
+  if (fromQuery.length > 0) return { urls: fromQuery, source: 'query' };
+
+  const saved = loadSavedRelayUrls();
+  if (saved.length > 0) return { urls: saved, source: 'settings' };
+
+  const fromEnv = parseRelayList(import.meta.env.VITE_RELAY_URL ?? '');
+  if (fromEnv.length > 0) return { urls: fromEnv, source: 'env' };
+
+  return { urls: [DEFAULT_RELAY_URL], source: 'default' };
+};
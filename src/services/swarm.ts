@@ -0,0 +1,142 @@
+// Multi-source downloads of content-addressed files.
+//
+// A file is offered to the swarm only once the user holding it shares it. It
+// is identified by the root of its SWARM_CHUNK_SIZE chunk hashes, which every
+// holder computes the same way whatever chunk size its own transfer used, so
+// any peer holding the same bytes can serve it. Holders advertise the chunk
+// ranges they have; the downloader fetches the chunk hash list once, checks it
+// against the root, and then pulls ranges from every holder at once. Ranges
+// are handed out one at a time, so a fast peer simply comes back for more, and
+// a peer that stalls or sends a bad chunk has its unfinished range given to
+// someone else.
+//
+// Only finished copies are advertised, since received chunks go to a sink
+// that cannot be read back until it is closed; a finished swarm download is
+// shared again straight away.
+
+import { sha256 } from '../utils/integrity';
+
+// Fixed for every swarm file, and small enough for any transport
+export const SWARM_CHUNK_SIZE = 64 * 1024;
+export const SWARM_RANGE_CHUNKS = 64;
+// Chunk hashes per swarm-manifest reply; sealed and base64-encoded, a page
+// stays well under the data channel's 256KB message limit
+export const SWARM_MANIFEST_PAGE = 2048;
+
+// [start, end) chunk indices
+export type ChunkRange = [number, number];
+
+interface Assignment {
+  pending: Set<number>;
+  lastProgress: number;
+}
+
+// Reads the file once; the root of these hashes is its content hash
+export const hashSwarmChunks = async (file: File): Promise<Uint8Array[]> => {
+  const hashes: Uint8Array[] = [];
+  for (let start = 0; start < file.size; start += SWARM_CHUNK_SIZE) {
+    hashes.push(await sha256(await file.slice(start, start + SWARM_CHUNK_SIZE).arrayBuffer()));
+  }
+  return hashes;
+};
+
+export const fullRange = (totalChunks: number): ChunkRange[] => {
+  return totalChunks > 0 ? [[0, totalChunks]] : [];
+};
+
+export const isChunkRangeList = (value: unknown): value is ChunkRange[] => {
+  return Array.isArray(value) && value.every(range =>
+    Array.isArray(range) &&
+    range.length === 2 &&
+    Number.isInteger(range[0]) &&
+    Number.isInteger(range[1]) &&
+    range[0] >= 0 &&
+    range[0] < range[1]
+  );
+};
+
+export class SwarmDownload {
+  public readonly received = new Set<number>();
+  private assignments = new Map<string, Assignment>();
+  // Peers that sent a chunk which failed verification
+  private excluded = new Set<string>();
+
+  constructor(public readonly totalChunks: number) {}
+
+  public get complete(): boolean {
+    return this.received.size >= this.totalChunks;
+  }
+
+  public get sources(): string[] {
+    return Array.from(this.assignments.keys());
+  }
+
+  public isExcluded(peerId: string): boolean {
+    return this.excluded.has(peerId);
+  }
+
+  // Assigns the first unclaimed run of chunks this peer holds, up to
+  // SWARM_RANGE_CHUNKS long; null when there is nothing left for it
+  public claim(peerId: string, available: ChunkRange[]): ChunkRange | null {
+    if (this.excluded.has(peerId) || this.assignments.has(peerId)) return null;
+
+    const claimed = new Set<number>();
+    this.assignments.forEach(assignment => assignment.pending.forEach(index => claimed.add(index)));
+
+    const isFree = (index: number) => !this.received.has(index) && !claimed.has(index);
+
+    for (const [availableStart, availableEnd] of available) {
+      const end = Math.min(availableEnd, this.totalChunks);
+
+      let start = availableStart;
+      while (start < end && !isFree(start)) start++;
+      if (start >= end) continue;
+
+      let stop = start + 1;
+      while (stop < end && stop - start < SWARM_RANGE_CHUNKS && isFree(stop)) stop++;
+      return this.assign(peerId, [start, stop]);
+    }
+
+    return null;
+  }
+
+  // Records a verified chunk, whichever peer it came from; a late copy from
+  // a released source also counts against the range that replaced it
+  public onChunk(peerId: string, chunkIndex: number): void {
+    this.received.add(chunkIndex);
+
+    this.assignments.forEach((assignment, holderId) => {
+      assignment.pending.delete(chunkIndex);
+      if (holderId === peerId) {
+        assignment.lastProgress = Date.now();
+      }
+      if (assignment.pending.size === 0) {
+        this.assignments.delete(holderId);
+      }
+    });
+  }
+
+  // Returns a peer's unfinished chunks to the pool
+  public release(peerId: string, exclude = false): void {
+    this.assignments.delete(peerId);
+    if (exclude) {
+      this.excluded.add(peerId);
+    }
+  }
+
+  public stalledPeers(timeout: number): string[] {
+    const now = Date.now();
+    return Array.from(this.assignments.entries())
+      .filter(([, assignment]) => now - assignment.lastProgress > timeout)
+      .map(([peerId]) => peerId);
+  }
+
+  private assign(peerId: string, range: ChunkRange): ChunkRange {
+    const pending = new Set<number>();
+    for (let index = range[0]; index < range[1]; index++) {
+      if (!this.received.has(index)) pending.add(index);
+    }
+    this.assignments.set(peerId, { pending, lastProgress: Date.now() });
+    return range;
+  }
+}
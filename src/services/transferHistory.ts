@@ -0,0 +1,110 @@
+// A lasting record of every file sent or received, kept in IndexedDB so it
+// survives a reload. The recorder follows PeerService's own transfer events:
+// a record opens on fileTransferStart and is written when the transfer ends.
+
+import { FileTransfer, TransferRecord } from '../types';
+import { HISTORY_STORE, openDatabase, requestResult } from './database';
+
+type TransportMode = 'direct' | 'relay';
+
+interface OpenRecord {
+  name: string;
+  size: number;
+  peerId?: string;
+  direction: 'send' | 'receive';
+  startedAt: number;
+  // Every path the data took while the transfer ran
+  modes: Set<TransportMode>;
+}
+
+export const loadTransferHistory = async (): Promise<TransferRecord[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE);
+  const records = await requestResult(store.index('finishedAt').getAll());
+  // Newest first
+  return (records as TransferRecord[]).reverse();
+};
+
+export const clearTransferHistory = async (): Promise<void> => {
+  const db = await openDatabase();
+  await requestResult(db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE).clear());
+};
+
+const saveTransferRecord = async (record: TransferRecord): Promise<void> => {
+  const db = await openDatabase();
+  await requestResult(db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE).put(record));
+};
+
+export class TransferHistory {
+  private open = new Map<string, OpenRecord>();
+
+  constructor(
+    private modeOf: (peerId: string) => TransportMode | undefined,
+    private onRecord: (record: TransferRecord) => void
+  ) {}
+
+  public observe(event: string, data: Partial<FileTransfer>): void {
+    if (!data.id) return;
+
+    switch (event) {
+      case 'fileTransferStart':
+        if (!data.direction) return;
+        this.open.set(data.id, {
+          name: data.name ?? '',
+          size: data.size ?? 0,
+          peerId: data.peerId,
+          direction: data.direction,
+          startedAt: Date.now(),
+          modes: new Set()
+        });
+        break;
+      case 'fileTransferProgress':
+        this.noteMode(data.id, data);
+        break;
+      case 'fileTransferComplete':
+      case 'fileTransferError':
+        this.noteMode(data.id, data);
+        this.finish(data.id, data);
+        break;
+    }
+  }
+
+  private noteMode(id: string, data: Partial<FileTransfer>): void {
+    const entry = this.open.get(id);
+    if (!entry) return;
+
+    // Swarm downloads have no single peer; their speed samples carry the path
+    const mode = entry.peerId ? this.modeOf(entry.peerId) : data.throughputHistory?.slice(-1)[0]?.mode;
+    if (mode) {
+      entry.modes.add(mode);
+    }
+  }
+
+  private finish(id: string, data: Partial<FileTransfer>): void {
+    const entry = this.open.get(id);
+    if (!entry) return;
+    this.open.delete(id);
+
+    const outcome = data.status === 'completed' || data.status === 'declined' || data.status === 'cancelled'
+      ? data.status
+      : 'error';
+
+    const record: TransferRecord = {
+      id,
+      name: entry.name,
+      size: entry.size,
+      hash: data.hash,
+      peerId: entry.peerId,
+      direction: entry.direction,
+      startedAt: entry.startedAt,
+      finishedAt: Date.now(),
+      outcome,
+      error: outcome === 'error' ? data.error : undefined,
+      mode: entry.modes.size > 1 ? 'mixed' : entry.modes.values().next().value
+    };
+
+    saveTransferRecord(record)
+      .then(() => this.onRecord(record))
+      .catch((error) => console.warn('Failed to save transfer history:', error));
+  }
+}
@@ -0,0 +1,146 @@
+// Scheduling for outgoing transfers.
+//
+// Each peer has its own queue of jobs (a single file, or a whole group) in
+// priority order. Jobs wait in the queue until the peer is connected and fewer
+// than `maxConcurrent` of its jobs are running; a queued job stays put across
+// disconnects and starts once the peer is back. Running jobs then take turns
+// on the wire one chunk at a time (see SendTurns), so they share bandwidth
+// evenly instead of whichever loop wakes first hogging the socket.
+
+export const DEFAULT_MAX_CONCURRENT = 2;
+export const MAX_CONCURRENT_LIMIT = 8;
+
+interface Job<T> {
+  id: string;
+  peerId: string;
+  run: () => Promise<T>;
+  // Called instead of `run` when the job is removed while still queued
+  cancel: () => T;
+  resolve: (result: T) => void;
+  reject: (error: unknown) => void;
+}
+
+export class TransferScheduler<T> {
+  private queues = new Map<string, Job<T>[]>();
+  private running = new Map<string, Set<string>>();
+  private maxConcurrent = DEFAULT_MAX_CONCURRENT;
+
+  constructor(
+    private canStart: (peerId: string) => boolean,
+    private onQueueChange: (peerId: string, queued: string[]) => void
+  ) {}
+
+  public get concurrency(): number {
+    return this.maxConcurrent;
+  }
+
+  public setConcurrency(maxConcurrent: number): void {
+    this.maxConcurrent = Math.min(MAX_CONCURRENT_LIMIT, Math.max(1, Math.floor(maxConcurrent)));
+    this.queues.forEach((_, peerId) => this.pump(peerId));
+  }
+
+  // Resolves with the job's result once it has run, or been cancelled from the
+  // queue; rejects if `run` throws
+  public enqueue(peerId: string, id: string, run: () => Promise<T>, cancel: () => T): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const queue = this.queues.get(peerId) ?? [];
+      const job = { id, peerId, run, cancel, resolve, reject };
+      queue.push(job);
+      this.queues.set(peerId, queue);
+      // Started first, so a job that can run at once is never reported queued
+      this.pump(peerId);
+      if (queue.includes(job)) {
+        this.notify(peerId);
+      }
+    });
+  }
+
+  // Drops a job that has not started; false if it is running or unknown
+  public remove(id: string): boolean {
+    const found = this.findJob(id);
+    if (!found) return false;
+
+    const [job] = found.queue.splice(found.index, 1);
+    this.notify(job.peerId);
+    job.resolve(job.cancel());
+    return true;
+  }
+
+  // Moves a queued job in front of `beforeId`, or to the back when it is null.
+  // Only reorders within one peer's queue.
+  public move(id: string, beforeId: string | null): boolean {
+    const found = this.findJob(id);
+    if (!found || id === beforeId) return false;
+
+    const { queue, index } = found;
+    const target = beforeId === null ? queue.length : queue.findIndex(job => job.id === beforeId);
+    if (target < 0) return false;
+
+    const [job] = queue.splice(index, 1);
+    queue.splice(target > index ? target - 1 : target, 0, job);
+    this.notify(job.peerId);
+    return true;
+  }
+
+  // Starts as many queued jobs for this peer as the limit allows
+  public pump(peerId: string): void {
+    const queue = this.queues.get(peerId);
+    if (!queue || queue.length === 0 || !this.canStart(peerId)) return;
+
+    const running = this.running.get(peerId) ?? new Set<string>();
+    this.running.set(peerId, running);
+
+    let started = false;
+    while (queue.length > 0 && running.size < this.maxConcurrent) {
+      const job = queue.shift()!;
+      running.add(job.id);
+      started = true;
+
+      // Jobs report failure through their result; a throw is a bug, but the
+      // caller still hears about it and the slot is freed
+      job.run()
+        .then(job.resolve, (error) => {
+          console.error(`Transfer job ${job.id} threw:`, error);
+          job.reject(error);
+        })
+        .finally(() => {
+          running.delete(job.id);
+          this.pump(peerId);
+        });
+    }
+
+    if (started) {
+      this.notify(peerId);
+    }
+  }
+
+  private findJob(id: string): { queue: Job<T>[]; index: number } | null {
+    for (const queue of this.queues.values()) {
+      const index = queue.findIndex(job => job.id === id);
+      if (index >= 0) return { queue, index };
+    }
+    return null;
+  }
+
+  private notify(peerId: string): void {
+    this.onQueueChange(peerId, (this.queues.get(peerId) ?? []).map(job => job.id));
+  }
+}
+
+// A FIFO lock: each sender takes one turn per chunk and goes to the back of
+// the line, which gives round-robin sharing between everything sending
+export class SendTurns {
+  private tail: Promise<void> = Promise.resolve();
+
+  // Resolves with a release function once it is this caller's turn
+  public acquire(): Promise<() => void> {
+    let release!: () => void;
+    const done = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    const turn = this.tail.then(() => release);
+    this.tail = this.tail.then(() => done);
+    return turn;
+  }
+}
@@ -5,10 +5,154 @@ export interface FileTransfer {
   type: string;
   progress: number;
   encryptionProgress?: number;
-  status: 'pending' | 'transferring' | 'completed' | 'error';
+  status:
+    | 'queued'
+    | 'pending'
+    | 'transferring'
+    | 'paused'
+    | 'verifying'
+    | 'completed'
+    | 'declined'
+    | 'cancelled'
+    | 'error';
+  peerId?: string;
+  // Whether the safety code had been confirmed when the transfer began
+  peerVerified?: boolean;
+  // Set for files sent as part of a folder or multi-file group
+  groupId?: string;
+  path?: string;
+  // Set on each recipient's copy of a file broadcast to several peers
+  broadcastId?: string;
+  // Peers currently serving a swarm download
+  sources?: number;
+  // Original bytes per byte sent, for files compressed before encryption
+  compressionRatio?: number;
+  bytesTransferred?: number;
+  // Smoothed bytes per second and seconds left, once measured
+  throughput?: number;
+  eta?: number;
+  throughputHistory?: ThroughputSample[];
+  direction?: 'send' | 'receive';
+  // Root hash of the file, once it has been sent or verified
+  hash?: string;
+  // A finished file still held here: it can be shared with every connected
+  // peer for multi-source downloads, or already is
+  swarm?: 'available' | 'shared';
+  // Why the transfer failed
+  error?: string;
+}
+
+// One reading for the speed sparkline, tagged with the path the data took
+export interface ThroughputSample {
+  bytesPerSecond: number;
+  mode: 'direct' | 'relay';
+}
+
+export interface TransferGroup {
+  id: string;
+  // A folder or multi-file send, or one file broadcast to `fileCount` peers
+  kind?: 'files' | 'broadcast';
+  name: string;
+  fileCount: number;
+  size: number;
+  direction: 'send' | 'receive';
+  status: 'queued' | 'pending' | 'transferring' | 'completed' | 'declined' | 'cancelled' | 'error';
+  peerId?: string;
 }
 
 export interface PeerConnection {
   id: string;
   connected: boolean;
-}
\ No newline at end of file
+  mode?: 'direct' | 'relay' | 'disconnected';
+  safetyCode?: string;
+  verified?: boolean;
+  // Offers from this peer are accepted without asking
+  autoAccept?: boolean;
+  // SHA-256 of the peer's identity key
+  fingerprint?: string;
+  health?: PeerHealth;
+  // Smoothed round trip in ms, from ping/pong
+  rtt?: number;
+}
+
+// How recently a peer has answered; see LivenessMonitor
+export type PeerHealth = 'good' | 'degraded' | 'lost';
+
+export interface PendingConnection {
+  peerId: string;
+  safetyCode: string;
+}
+
+// A file or group another peer wants to send; nothing is transferred until accepted
+export interface FileOffer {
+  id: string;
+  peerId: string;
+  name: string;
+  size: number;
+  type: string;
+  fileCount: number;
+  peerVerified: boolean;
+}
+
+// A file connected peers can serve; identified by its content hash, so it can
+// be fetched from all of them at once
+export interface SwarmFile {
+  contentHash: string;
+  name: string;
+  size: number;
+  type: string;
+  peerIds: string[];
+}
+
+// A finished transfer, as kept in the history store
+export interface TransferRecord {
+  id: string;
+  name: string;
+  size: number;
+  hash?: string;
+  // Missing for swarm downloads, which come from several peers
+  peerId?: string;
+  direction: 'send' | 'receive';
+  startedAt: number;
+  finishedAt: number;
+  outcome: 'completed' | 'declined' | 'cancelled' | 'error';
+  error?: string;
+  // Whether the data went direct, through the relay, or both
+  mode?: 'direct' | 'relay' | 'mixed';
+}
+
+// A short code the relay maps to our peer id until it expires
+export interface PairingCode {
+  code: string;
+  expiresAt: number;
+}
+
+// A saved peer from the address book
+export interface Contact {
+  peerId: string;
+  alias: string;
+  color: string;
+  // Identity key fingerprint seen when the contact was saved; a peer whose
+  // key does not match is never treated as this contact
+  fingerprint: string;
+  // The safety code was confirmed in a session with this key
+  verified: boolean;
+  // Connection requests are accepted without asking, and we reconnect on our own
+  trusted: boolean;
+  autoAcceptFiles: boolean;
+  addedAt: number;
+  lastSeen: number;
+}
+
+// Where the relay list in use came from; see relayConfig
+export type RelaySource = 'query' | 'settings' | 'env' | 'default';
+
+export interface RelayHealth {
+  url: string;
+  state: 'connecting' | 'online' | 'offline';
+  // Round trip of the last relay ping, in ms
+  latency?: number;
+  // A fallback relay is in use rather than the first choice
+  fallback: boolean;
+  source: RelaySource;
+}
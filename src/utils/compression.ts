@@ -0,0 +1,110 @@
+// Optional compression of file chunks before they are encrypted.
+//
+// Each chunk is compressed on its own, so it can still be verified, re-sent
+// and written at its offset independently. A chunk that does not shrink is
+// sent as-is; the frame flags say which ones were compressed.
+
+export const COMPRESSION_FORMAT: CompressionFormat = 'deflate-raw';
+
+const MIN_COMPRESSIBLE_SIZE = 1024; // Not worth it below 1KB
+const SAMPLE_SIZE = 64 * 1024;
+const MIN_SAMPLE_SAVING = 0.1; // A sample must shrink by 10% to compress the file
+
+const COMPRESSIBLE_TYPES = new Set([
+  'application/json',
+  'application/xml',
+  'application/javascript',
+  'application/x-javascript',
+  'application/x-tar',
+  'application/sql',
+  'application/x-sh',
+  'application/yaml',
+  'application/x-yaml',
+  'application/x-ndjson',
+  'image/svg+xml',
+  'image/bmp'
+]);
+
+// Formats that are compressed already; sampling them would only waste time
+const INCOMPRESSIBLE_TYPES = new Set([
+  'application/zip',
+  'application/gzip',
+  'application/x-gzip',
+  'application/x-7z-compressed',
+  'application/vnd.rar',
+  'application/x-rar-compressed',
+  'application/x-bzip2',
+  'application/x-xz',
+  'application/zstd',
+  'application/pdf'
+]);
+
+export const isCompressionSupported = (): boolean => {
+  return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+};
+
+// Decides by MIME type where that is conclusive, otherwise by compressing a sample
+export const shouldCompress = async (file: File): Promise<boolean> => {
+  if (!isCompressionSupported() || file.size < MIN_COMPRESSIBLE_SIZE) return false;
+
+  const type = file.type.toLowerCase();
+  if (
+    type.startsWith('text/') ||
+    type.endsWith('+json') ||
+    type.endsWith('+xml') ||
+    COMPRESSIBLE_TYPES.has(type)
+  ) {
+    return true;
+  }
+  if (
+    INCOMPRESSIBLE_TYPES.has(type) ||
+    type.startsWith('image/') ||
+    type.startsWith('video/') ||
+    type.startsWith('audio/') ||
+    type.startsWith('font/woff')
+  ) {
+    return false;
+  }
+
+  try {
+    const sample = await file.slice(0, SAMPLE_SIZE).arrayBuffer();
+    const compressed = await compress(sample);
+    return compressed.byteLength <= sample.byteLength * (1 - MIN_SAMPLE_SAVING);
+  } catch (error) {
+    console.warn('Could not sample file for compression:', error);
+    return false;
+  }
+};
+
+export const compress = async (data: ArrayBuffer): Promise<ArrayBuffer> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream(COMPRESSION_FORMAT));
+  return await new Response(stream).arrayBuffer();
+};
+
+// Refuses to inflate past `maxBytes`, so a hostile chunk cannot balloon in memory
+export const decompress = async (data: ArrayBuffer, maxBytes: number): Promise<ArrayBuffer> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream(COMPRESSION_FORMAT));
+  const reader = stream.getReader();
+  const parts: Uint8Array[] = [];
+  let length = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    length += value.byteLength;
+    if (length > maxBytes) {
+      await reader.cancel();
+      throw new Error('Decompressed chunk is larger than the chunk size');
+    }
+    parts.push(value);
+  }
+
+  const joined = new Uint8Array(length);
+  let offset = 0;
+  parts.forEach(part => {
+    joined.set(part, offset);
+    offset += part.byteLength;
+  });
+  return joined.buffer;
+};
@@ -1,4 +1,14 @@
-import { nanoid } from 'nanoid';
+const SAFETY_CODE_LENGTH = 6;
+const SAFETY_EMOJI = [
+  '🐶', '🐱', '🦁', '🐴', '🦄', '🐷', '🐘', '🐰',
+  '🐼', '🐓', '🐧', '🐢', '🐟', '🐙', '🦋', '🌷',
+  '🌳', '🌵', '🍄', '🌏', '🌙', '☁️', '🔥', '🍌',
+  '🍎', '🍓', '🌽', '🍕', '🎂', '❤️', '😀', '🤖',
+  '🎩', '👓', '🔧', '🎅', '👍', '☂️', '⌛', '⏰',
+  '🎁', '💡', '📕', '✏️', '📎', '✂️', '🔒', '🔑',
+  '🔨', '☎️', '🏁', '🚂', '🚲', '✈️', '🚀', '🏆',
+  '⚽', '🎸', '🎺', '🔔', '⚓', '🎧', '📁', '📌'
+];
 
 export class Encryption {
   private static async generateKey(): Promise<CryptoKey> {
@@ -12,65 +22,253 @@ export class Encryption {
     );
   }
 
-  private static async exportKey(key: CryptoKey): Promise<string> {
+  static async generateKeyPair(): Promise<CryptoKeyPair> {
+    return await window.crypto.subtle.generateKey(
+      {
+        name: 'ECDH',
+        namedCurve: 'P-256',
+      },
+      false,
+      ['deriveBits']
+    );
+  }
+
+  static async exportPublicKey(key: CryptoKey): Promise<string> {
     const exported = await window.crypto.subtle.exportKey('raw', key);
     return btoa(String.fromCharCode(...new Uint8Array(exported)));
   }
 
-  private static async importKey(keyString: string): Promise<CryptoKey> {
-    const keyData = Uint8Array.from(atob(keyString), c => c.charCodeAt(0));
-    return await window.crypto.subtle.importKey(
+  // Both sides must pass the public keys in the same (initiator, responder)
+  // order so the HKDF info, and therefore the session key, matches.
+  static async deriveSessionKey(
+    privateKey: CryptoKey,
+    peerPublicKey: string,
+    initiatorPublicKey: string,
+    responderPublicKey: string
+  ): Promise<CryptoKey> {
+    const publicKey = await window.crypto.subtle.importKey(
       'raw',
-      keyData,
-      'AES-GCM',
-      true,
+      Uint8Array.from(atob(peerPublicKey), c => c.charCodeAt(0)),
+      {
+        name: 'ECDH',
+        namedCurve: 'P-256',
+      },
+      false,
+      []
+    );
+
+    const sharedSecret = await window.crypto.subtle.deriveBits(
+      {
+        name: 'ECDH',
+        public: publicKey,
+      },
+      privateKey,
+      256
+    );
+
+    const hkdfKey = await window.crypto.subtle.importKey(
+      'raw',
+      sharedSecret,
+      'HKDF',
+      false,
+      ['deriveKey']
+    );
+
+    return await window.crypto.subtle.deriveKey(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: new Uint8Array(32),
+        info: new TextEncoder().encode(
+          `sharencrypt-session|${initiatorPublicKey}|${responderPublicKey}`
+        ),
+      },
+      hkdfKey,
+      {
+        name: 'AES-GCM',
+        length: 256,
+      },
+      false,
       ['encrypt', 'decrypt']
     );
   }
 
-  static async encryptFile(file: File): Promise<{ 
-    encryptedData: ArrayBuffer; 
-    key: string;
-    iv: string;
-    transferId: string;
-  }> {
-    const key = await this.generateKey();
+  // Short authentication string both users compare out of band. A relay that
+  // swapped in its own keys would produce a different code on each screen.
+  static async safetyCode(
+    initiatorPublicKey: string,
+    responderPublicKey: string
+  ): Promise<string> {
+    const digest = new Uint8Array(await window.crypto.subtle.digest(
+      'SHA-256',
+      new TextEncoder().encode(`${initiatorPublicKey}|${responderPublicKey}`)
+    ));
+
+    // Six emoji at 6 bits each, taken from the front of the digest
+    let bits = 0;
+    let bitCount = 0;
+    let byteIndex = 0;
+    const symbols: string[] = [];
+    while (symbols.length < SAFETY_CODE_LENGTH) {
+      if (bitCount < 6) {
+        bits = (bits << 8) | digest[byteIndex++];
+        bitCount += 8;
+      }
+      bitCount -= 6;
+      symbols.push(SAFETY_EMOJI[(bits >> bitCount) & 0x3f]);
+    }
+
+    return symbols.join(' ');
+  }
+
+  // A one-off key for content sent to several peers, so it is encrypted once
+  static async generateContentKey(): Promise<CryptoKey> {
+    return await this.generateKey();
+  }
+
+  // Seals a content key for one recipient under that peer's session key
+  static async wrapContentKey(
+    contentKey: CryptoKey,
+    sessionKey: CryptoKey,
+    transferId: string
+  ): Promise<{ key: string; iv: string }> {
     const iv = window.crypto.getRandomValues(new Uint8Array(12));
-    const transferId = nanoid();
+    const raw = await window.crypto.subtle.exportKey('raw', contentKey);
+    const wrapped = await window.crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv,
+        additionalData: new TextEncoder().encode(`content-key:${transferId}`),
+      },
+      sessionKey,
+      raw
+    );
 
-    const arrayBuffer = await file.arrayBuffer();
-    const encryptedData = await window.crypto.subtle.encrypt(
+    return {
+      key: btoa(String.fromCharCode(...new Uint8Array(wrapped))),
+      iv: btoa(String.fromCharCode(...iv)),
+    };
+  }
+
+  static async unwrapContentKey(
+    wrapped: { key: string; iv: string },
+    sessionKey: CryptoKey,
+    transferId: string
+  ): Promise<CryptoKey> {
+    const raw = await window.crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: Uint8Array.from(atob(wrapped.iv), c => c.charCodeAt(0)),
+        additionalData: new TextEncoder().encode(`content-key:${transferId}`),
+      },
+      sessionKey,
+      Uint8Array.from(atob(wrapped.key), c => c.charCodeAt(0))
+    );
+
+    return await window.crypto.subtle.importKey(
+      'raw',
+      raw,
+      'AES-GCM',
+      false,
+      ['decrypt']
+    );
+  }
+
+  // For control fields the relay must not read, such as hashes of file
+  // content; `context` is bound in so a sealed value cannot be replayed
+  // in another message
+  static async sealJson(
+    value: unknown,
+    key: CryptoKey,
+    context: string
+  ): Promise<{ data: string; iv: string }> {
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const sealed = await window.crypto.subtle.encrypt(
       {
         name: 'AES-GCM',
         iv,
+        additionalData: new TextEncoder().encode(context),
       },
       key,
-      arrayBuffer
+      new TextEncoder().encode(JSON.stringify(value))
     );
 
     return {
-      encryptedData,
-      key: await this.exportKey(key),
+      data: this.toBase64(new Uint8Array(sealed)),
       iv: btoa(String.fromCharCode(...iv)),
-      transferId,
     };
   }
 
-  static async decryptFile(
-    encryptedData: ArrayBuffer,
-    keyString: string,
-    ivString: string
-  ): Promise<ArrayBuffer> {
-    const key = await this.importKey(keyString);
-    const iv = Uint8Array.from(atob(ivString), c => c.charCodeAt(0));
+  // Rejects when the seal does not verify under `key` and `context`
+  static async openJson(
+    sealed: { data: string; iv: string },
+    key: CryptoKey,
+    context: string
+  ): Promise<unknown> {
+    const opened = await window.crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: Uint8Array.from(atob(sealed.iv), c => c.charCodeAt(0)),
+        additionalData: new TextEncoder().encode(context),
+      },
+      key,
+      Uint8Array.from(atob(sealed.data), c => c.charCodeAt(0))
+    );
 
+    return JSON.parse(new TextDecoder().decode(opened));
+  }
+
+  // Each chunk gets a fresh IV, and its position is bound in as additional
+  // data so a relay cannot reorder or splice chunks between transfers.
+  static async encryptChunk(
+    chunk: ArrayBuffer,
+    key: CryptoKey,
+    transferId: string,
+    chunkIndex: number
+  ): Promise<{ data: ArrayBuffer; iv: Uint8Array }> {
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const data = await window.crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv,
+        additionalData: this.chunkAad(transferId, chunkIndex),
+      },
+      key,
+      chunk
+    );
+
+    return { data, iv };
+  }
+
+  // Rejects with an OperationError when the AES-GCM tag does not verify
+  static async decryptChunk(
+    data: BufferSource,
+    key: CryptoKey,
+    iv: Uint8Array,
+    transferId: string,
+    chunkIndex: number
+  ): Promise<ArrayBuffer> {
     return await window.crypto.subtle.decrypt(
       {
         name: 'AES-GCM',
         iv,
+        additionalData: this.chunkAad(transferId, chunkIndex),
       },
       key,
-      encryptedData
+      data
     );
   }
-}
\ No newline at end of file
+
+  // Sealed values can be large, too many bytes to spread into one call
+  private static toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+      binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+  }
+
+  private static chunkAad(transferId: string, chunkIndex: number): Uint8Array {
+    return new TextEncoder().encode(`${transferId}:${chunkIndex}`);
+  }
+}
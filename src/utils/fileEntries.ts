@@ -0,0 +1,76 @@
+// Turns file inputs and drag-and-drop payloads into files with the relative
+// paths they should be recreated at on the receiving side.
+
+export interface SelectedFile {
+  file: File;
+  path: string;
+}
+
+// `webkitRelativePath` is set when the input has `webkitdirectory`
+export const fromFileList = (files: FileList): SelectedFile[] => {
+  return Array.from(files).map(file => ({
+    file,
+    path: file.webkitRelativePath || file.name
+  }));
+};
+
+const readAllEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> => {
+  return new Promise((resolve, reject) => {
+    const entries: FileSystemEntry[] = [];
+
+    // readEntries hands back results in batches until it returns an empty one
+    const readBatch = () => {
+      reader.readEntries((batch) => {
+        if (batch.length === 0) {
+          resolve(entries);
+        } else {
+          entries.push(...batch);
+          readBatch();
+        }
+      }, reject);
+    };
+
+    readBatch();
+  });
+};
+
+const walkEntry = async (entry: FileSystemEntry, parentPath: string): Promise<SelectedFile[]> => {
+  const path = parentPath ? `${parentPath}/${entry.name}` : entry.name;
+
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => {
+      (entry as FileSystemFileEntry).file(resolve, reject);
+    });
+    return [{ file, path }];
+  }
+
+  if (entry.isDirectory) {
+    const children = await readAllEntries((entry as FileSystemDirectoryEntry).createReader());
+    const nested = await Promise.all(children.map(child => walkEntry(child, path)));
+    return nested.flat();
+  }
+
+  return [];
+};
+
+export const fromDataTransfer = async (dataTransfer: DataTransfer): Promise<SelectedFile[]> => {
+  // Entries must be grabbed synchronously, before the drop event returns
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry());
+
+  if (entries.some(entry => entry === null)) {
+    return fromFileList(dataTransfer.files);
+  }
+
+  const nested = await Promise.all(entries.map(entry => walkEntry(entry!, '')));
+  return nested.flat();
+};
+
+// Strips anything that could escape the folder the user saves into
+export const sanitizePath = (path: string): string | null => {
+  const segments = path
+    .split(/[\\/]+/)
+    .filter(segment => segment !== '' && segment !== '.' && segment !== '..');
+  return segments.length > 0 ? segments.join('/') : null;
+};
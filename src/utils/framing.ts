@@ -0,0 +1,141 @@
+// Binary wire format for file data. Control messages stay JSON; chunk bytes
+// travel as raw frames so they are not inflated into JSON number arrays.
+//
+// Frame layout (big-endian):
+//   u8  frame type
+//   u8  flags
+//   u8  transferId length, then transferId (ASCII)
+//   u32 chunkIndex
+//   12  AES-GCM IV
+//   ... ciphertext (includes the GCM tag)
+//
+// With FLAG_HASHED the encrypted payload starts with the 32-byte SHA-256 of
+// the plaintext chunk, so the hash is only readable by the peers and not by
+// the relay, which could otherwise match it against known content.
+//
+// Over the WebSocket relay each frame is wrapped in an envelope of
+//   u8 peer id length, then peer id (ASCII)
+// carrying the target on the way up and the sender on the way down.
+
+import { HASH_LENGTH } from './integrity';
+
+export const FRAME_FILE_CHUNK = 1;
+
+export const FLAG_ENCRYPTED = 0x01;
+export const FLAG_HASHED = 0x02;
+// The plaintext was deflated before encryption; the hash is of the inflated bytes
+export const FLAG_COMPRESSED = 0x04;
+
+const IV_LENGTH = 12;
+
+export interface ChunkFrame {
+  type: typeof FRAME_FILE_CHUNK;
+  flags: number;
+  transferId: string;
+  chunkIndex: number;
+  iv: Uint8Array;
+  data: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const encodeChunkFrame = (frame: Omit<ChunkFrame, 'type'>): ArrayBuffer => {
+  const transferId = encoder.encode(frame.transferId);
+  if (transferId.length > 255) {
+    throw new Error('Transfer id too long for frame header');
+  }
+  if (frame.iv.length !== IV_LENGTH) {
+    throw new Error(`Expected a ${IV_LENGTH}-byte IV`);
+  }
+
+  const headerLength = 3 + transferId.length + 4 + IV_LENGTH;
+  const buffer = new ArrayBuffer(headerLength + frame.data.byteLength);
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+
+  let offset = 0;
+  view.setUint8(offset++, FRAME_FILE_CHUNK);
+  view.setUint8(offset++, frame.flags);
+  view.setUint8(offset++, transferId.length);
+  bytes.set(transferId, offset);
+  offset += transferId.length;
+  view.setUint32(offset, frame.chunkIndex);
+  offset += 4;
+  bytes.set(frame.iv, offset);
+  offset += IV_LENGTH;
+  bytes.set(frame.data, offset);
+
+  return buffer;
+};
+
+export const getFrameType = (buffer: ArrayBuffer): number => {
+  return buffer.byteLength > 0 ? new DataView(buffer).getUint8(0) : -1;
+};
+
+export const decodeChunkFrame = (buffer: ArrayBuffer): ChunkFrame => {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+
+  let offset = 0;
+  const type = view.getUint8(offset++);
+  if (type !== FRAME_FILE_CHUNK) {
+    throw new Error(`Not a chunk frame: ${type}`);
+  }
+  const flags = view.getUint8(offset++);
+  const idLength = view.getUint8(offset++);
+  const transferId = decoder.decode(bytes.subarray(offset, offset + idLength));
+  offset += idLength;
+  const chunkIndex = view.getUint32(offset);
+  offset += 4;
+  const iv = bytes.slice(offset, offset + IV_LENGTH);
+  offset += IV_LENGTH;
+  if (offset > buffer.byteLength) {
+    throw new Error('Truncated chunk frame');
+  }
+
+  return {
+    type,
+    flags,
+    transferId,
+    chunkIndex,
+    iv,
+    data: bytes.slice(offset)
+  };
+};
+
+// The plaintext that is encrypted for a FLAG_HASHED chunk
+export const joinHashedPayload = (hash: Uint8Array, payload: ArrayBuffer): ArrayBuffer => {
+  const joined = new Uint8Array(HASH_LENGTH + payload.byteLength);
+  joined.set(hash, 0);
+  joined.set(new Uint8Array(payload), HASH_LENGTH);
+  return joined.buffer;
+};
+
+export const splitHashedPayload = (decrypted: ArrayBuffer): { hash: Uint8Array; payload: ArrayBuffer } => {
+  if (decrypted.byteLength < HASH_LENGTH) {
+    throw new Error('Chunk is too short to hold its hash');
+  }
+  return {
+    hash: new Uint8Array(decrypted.slice(0, HASH_LENGTH)),
+    payload: decrypted.slice(HASH_LENGTH)
+  };
+};
+
+export const wrapRelayEnvelope = (peerId: string, frame: ArrayBuffer): ArrayBuffer => {
+  const id = encoder.encode(peerId);
+  const buffer = new Uint8Array(1 + id.length + frame.byteLength);
+  buffer[0] = id.length;
+  buffer.set(id, 1);
+  buffer.set(new Uint8Array(frame), 1 + id.length);
+  return buffer.buffer;
+};
+
+export const unwrapRelayEnvelope = (buffer: ArrayBuffer): { peerId: string; frame: ArrayBuffer } => {
+  const bytes = new Uint8Array(buffer);
+  const idLength = bytes[0];
+  return {
+    peerId: decoder.decode(bytes.subarray(1, 1 + idLength)),
+    frame: buffer.slice(1 + idLength)
+  };
+};
@@ -0,0 +1,46 @@
+// JSON and CSV exports of the transfer history, for audits
+
+import { TransferRecord } from '../types';
+
+const CSV_COLUMNS: (keyof TransferRecord)[] = [
+  'id',
+  'name',
+  'size',
+  'hash',
+  'peerId',
+  'direction',
+  'startedAt',
+  'finishedAt',
+  'outcome',
+  'error',
+  'mode'
+];
+
+const TIMESTAMP_COLUMNS = new Set<keyof TransferRecord>(['startedAt', 'finishedAt']);
+
+// File names come from peers; a leading =, +, - or @ would run as a
+// spreadsheet formula, so those cells are prefixed with a quote
+const csvCell = (value: unknown): string => {
+  let text = value === undefined || value === null ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const historyToCsv = (records: TransferRecord[]): string => {
+  const rows = records.map(record => CSV_COLUMNS.map(column => {
+    const value = record[column];
+    return csvCell(TIMESTAMP_COLUMNS.has(column) ? new Date(value as number).toISOString() : value);
+  }).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+export const historyToJson = (records: TransferRecord[]): string => {
+  return JSON.stringify(records.map(record => ({
+    ...record,
+    startedAt: new Date(record.startedAt).toISOString(),
+    finishedAt: new Date(record.finishedAt).toISOString()
+  })), null, 2);
+};
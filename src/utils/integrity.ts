@@ -0,0 +1,53 @@
+// SHA-256 helpers for end-to-end integrity checks. WebCrypto cannot hash a
+// stream, so files are verified as a list of per-chunk hashes whose
+// concatenation is hashed once more into a single root.
+
+export const HASH_LENGTH = 32;
+
+export const sha256 = async (data: BufferSource): Promise<Uint8Array> => {
+  return new Uint8Array(await window.crypto.subtle.digest('SHA-256', data));
+};
+
+export const rootHash = async (chunkHashes: Uint8Array[]): Promise<string> => {
+  const joined = new Uint8Array(chunkHashes.length * HASH_LENGTH);
+  chunkHashes.forEach((hash, index) => joined.set(hash, index * HASH_LENGTH));
+  return toHex(await sha256(joined));
+};
+
+export const hashesEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a[i] ^ b[i];
+  }
+  return difference === 0;
+};
+
+export const toHex = (bytes: Uint8Array): string => {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Chunk hash lists travel as one base64 string rather than a JSON array of hex
+export const encodeHashList = (hashes: Uint8Array[]): string => {
+  let binary = '';
+  hashes.forEach(hash => {
+    for (let i = 0; i < hash.length; i++) {
+      binary += String.fromCharCode(hash[i]);
+    }
+  });
+  return btoa(binary);
+};
+
+export const decodeHashList = (encoded: string): Uint8Array[] => {
+  const bytes = Uint8Array.from(atob(encoded), c => c.charCodeAt(0));
+  if (bytes.length % HASH_LENGTH !== 0) {
+    throw new Error('Hash list has a partial hash');
+  }
+
+  const hashes: Uint8Array[] = [];
+  for (let offset = 0; offset < bytes.length; offset += HASH_LENGTH) {
+    hashes.push(bytes.slice(offset, offset + HASH_LENGTH));
+  }
+  return hashes;
+};
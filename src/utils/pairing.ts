@@ -0,0 +1,36 @@
+// Short pairing codes and the share links that carry them.
+//
+// A code is six digits the relay maps to a peer id for a few minutes, so it
+// can be read out or typed instead of the full id. Links look like
+// `/#/connect/<code>` and may carry a full peer id instead of a code.
+
+const PAIRING_CODE_PATTERN = /^\d{6}$/;
+const CONNECT_LINK_PATTERN = /#\/connect\/([^/?#]+)/;
+
+// Tolerates the spaces and dashes people add when typing a code
+export const normalizePairingCode = (input: string): string => input.replace(/[\s-]/g, '');
+
+export const isPairingCode = (input: string): boolean => {
+  return PAIRING_CODE_PATTERN.test(normalizePairingCode(input));
+};
+
+// "123456" reads better as "123 456"
+export const formatPairingCode = (code: string): string => `${code.slice(0, 3)} ${code.slice(3)}`;
+
+// The query string is kept, so a `?relay=` choice carries over to whoever opens it
+export const createConnectLink = (codeOrPeerId: string): string => {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}#/connect/${encodeURIComponent(codeOrPeerId)}`;
+};
+
+// The code or peer id in a connect link (or a bare hash), if there is one
+export const parseConnectLink = (link: string): string | null => {
+  const match = link.match(CONNECT_LINK_PATTERN);
+  if (!match) return null;
+
+  try {
+    return decodeURIComponent(match[1]).trim() || null;
+  } catch {
+    return null;
+  }
+};